@@ -1,17 +1,28 @@
-import Util from "./Util";
-import Collection from "./utils/Collection";
+import { EventEmitter } from "events";
+import Util, { Middleware, REFRESH_MARGIN } from "./Util";
+import ClientCache, { CacheCollectionsOptions, CacheName } from "./utils/ClientCache";
+import { RateLimiterOptions } from "./utils/RateLimiter";
+import { RetryOptions } from "./utils/RetryPolicy";
+import { TokenStore } from "./utils/TokenStore";
+import { CacheAdapter } from "./utils/CacheAdapter";
+import { Transport } from "./utils/Transport";
+import { BatcherOptions } from "./utils/Batcher";
+import { ResponseCacheOptions } from "./utils/ResponseCache";
 import UserClient from "./UserClient";
 
 import AuthManager, { AuthRefresh, GetUserTokenOptions } from "./managers/AuthManager";
-import UserManager, { User } from './managers/UserManager';
-import PlaylistManager, { Playlist } from "./managers/PlaylistManager";
-import EpisodeManager, { Episode } from "./managers/EpisodeManager";
-import ShowManager, { Show } from "./managers/ShowManager";
-import BrowseManager, { Category } from "./managers/BrowseManager";
-import TrackManager, { Track } from "./managers/TrackManager";
-import AlbumManager, { Album } from "./managers/AlbumManager";
-import ArtistManager, { Artist } from "./managers/ArtistManager";
+import UserManager from './managers/UserManager';
+import PlaylistManager from "./managers/PlaylistManager";
+import EpisodeManager from "./managers/EpisodeManager";
+import ShowManager from "./managers/ShowManager";
+import BrowseManager from "./managers/BrowseManager";
+import TrackManager from "./managers/TrackManager";
+import AlbumManager from "./managers/AlbumManager";
+import ArtistManager from "./managers/ArtistManager";
 import SearchManager, { SearchMethod } from "./managers/SearchManager";
+import PlayerManager from "./managers/PlayerManager";
+import { Methods, RequestOptions } from "./Types";
+import { UnexpectedError } from "./Errors";
 
 /**
  * Client options to set!
@@ -26,28 +37,110 @@ export interface ClientOptions{
     cacheArtists?: boolean;
     cacheAlbums?: boolean;
     cacheCurrentUser?: boolean;
+    cache?: CacheCollectionsOptions;
+    cacheAdapter?: CacheAdapter;
+    normalize?: boolean;
+    rateLimit?: RateLimiterOptions;
+    retryPolicy?: RetryOptions;
+    concurrency?: number;
+    timeout?: number;
+    dedupe?: boolean;
+    httpCache?: boolean | ResponseCacheOptions;
+    batch?: boolean | BatcherOptions;
+    transport?: Transport;
+    apiURL?: string;
+    accountsURL?: string;
+    tokenStore?: TokenStore;
+    strict?: boolean;
     ready?: () => void;
 }
 
+/**
+ * Payload of the request event!
+ */
+export interface RequestEvent{
+    method: Methods;
+    url: string;
+    manager: string | null;
+}
+
+/**
+ * Payload of the response event. The duration is in milliseconds!
+ */
+export interface ResponseEvent extends RequestEvent{
+    status: number;
+    duration: number;
+}
+
+/**
+ * Payload of the rateLimited event. The retryAfter is in milliseconds!
+ */
+export interface RateLimitedEvent extends RequestEvent{
+    retryAfter: number;
+}
+
+/**
+ * Payload of the error event!
+ */
+export interface RequestErrorEvent extends RequestEvent{
+    error: UnexpectedError;
+}
+
+/**
+ * Payload of the tokenRefreshed event!
+ */
+export interface TokenRefreshedEvent{
+    token: string;
+    expiresAt: number | null;
+}
+
+/**
+ * Payload of the cacheHit and cacheMiss events!
+ */
+export interface CacheEvent{
+    cache: CacheName;
+    id: string;
+}
+
+/**
+ * The events emitted by the client and their arguments!
+ */
+export interface ClientEvents{
+    ready: [];
+    request: [RequestEvent];
+    response: [ResponseEvent];
+    rateLimited: [RateLimitedEvent];
+    tokenRefreshed: [TokenRefreshedEvent];
+    cacheHit: [CacheEvent];
+    cacheMiss: [CacheEvent];
+    error: [RequestErrorEvent];
+}
+
+/**
+ * Credentials remembered by the client to refresh its token!
+ */
+export interface ClientCredentials{
+    clientID: string;
+    clientSecret?: string;
+    redirectURL?: string;
+    refreshToken?: string;
+}
+
 /**
  * The main spotify client class!
  */
-export default class Client{
+export default class Client extends EventEmitter{
 
     token: string;
-    cacheOptions: Omit<ClientOptions, 'ready'>;
+    cacheOptions: Omit<ClientOptions, 'ready' | 'tokenStore' | 'cacheAdapter'>;
     onReady: () => void;
+    credentials!: ClientCredentials | null;
+    tokenStore!: TokenStore | null;
+    storeKey!: string | null;
+    requestOptions!: RequestOptions;
+    cacheAdapter!: CacheAdapter | null;
 
-    cache: {
-        users: Collection<User>;
-        playlists: Collection<Playlist>;
-        episodes: Collection<Episode>;
-        shows: Collection<Show>;
-        categories: Collection<Category>;
-        tracks: Collection<Track>;
-        albums: Collection<Album>;
-        artists: Collection<Artist>;
-    };
+    cache: ClientCache;
 
     util!: Util;
     auth!: AuthManager;
@@ -70,35 +163,49 @@ export default class Client{
      * @example new Spotify.Client();
      */
     constructor(token: string = 'NO TOKEN', options: ClientOptions = {}){
+        super();
+
+        const { ready, tokenStore, cacheAdapter, ...cacheOptions } = options;
         this.token = token;
-        this.onReady = options.ready || (() => {});
-
-        delete options.ready;
-        this.cacheOptions = options;
-
-        this.cache = {
-            users: new Collection(),
-            playlists: new Collection(),
-            episodes: new Collection(),
-            shows: new Collection(),
-            categories: new Collection(),
-            tracks: new Collection(),
-            albums: new Collection(),
-            artists: new Collection()
-        }
+        this.onReady = () => {
+            if(ready) ready();
+            process.nextTick(() => this.emit('ready'));
+        };
 
-        Object.defineProperty(this, 'util', { value: new Util(this.token), writable: true });
-        Object.defineProperty(this, 'auth', { value: new AuthManager(this.token), writable: true });
-        Object.defineProperty(this, 'users', { value: new UserManager(this) });
-        Object.defineProperty(this, 'playlists', { value: new PlaylistManager(this) });
-        Object.defineProperty(this, 'episodes', { value: new EpisodeManager(this) });
-        Object.defineProperty(this, 'shows', { value: new ShowManager(this) });
-        Object.defineProperty(this, 'browse', { value: new BrowseManager(this) });
-        Object.defineProperty(this, 'tracks', { value: new TrackManager(this) });
-        Object.defineProperty(this, 'albums', { value: new AlbumManager(this) });
-        Object.defineProperty(this, 'artists', { value: new ArtistManager(this) });
-        Object.defineProperty(this, 'search', { value: SearchManager(this) });
+        Object.defineProperty(this, 'tokenStore', { value: tokenStore || null });
+        Object.defineProperty(this, 'cacheAdapter', { value: cacheAdapter || null });
+        Object.defineProperty(this, 'storeKey', { value: null, writable: true });
+        Object.defineProperty(this, 'requestOptions', { value: { strict: options.strict ?? false, timeout: options.timeout } });
+
+        this.cacheOptions = cacheOptions;
+
+        this.cache = new ClientCache(this, options.cache);
+
+        Object.defineProperty(this, 'credentials', { value: null, writable: true });
+        Object.defineProperty(this, 'util', { 
+            value: new Util(this.token, {
+                rateLimit: options.rateLimit,
+                retryPolicy: options.retryPolicy,
+                concurrency: options.concurrency,
+                transport: options.transport,
+                apiURL: options.apiURL,
+                dedupe: options.dedupe,
+                httpCache: options.httpCache,
+                refresher: () => this.refresh(),
+                emit: (event, ...args) => this.emit(event, ...args),
+                requestOptions: this.requestOptions
+            }), 
+            writable: true 
+        });
+        Object.defineProperty(this, 'auth', { value: new AuthManager(this.token, { transport: options.transport, accountsURL: options.accountsURL }), writable: true });
         Object.defineProperty(this, 'user', { value: new UserClient(this) });
+        defineManagers(this);
+
+        if(options.normalize) this.use(async (request, next) => {
+            const response = await next(request);
+            this.cache.normalize(response.data);
+            return response;
+        });
 
         if(this.token != 'NO TOKEN'){
             if(this.cacheOptions.cacheCurrentUser) this.user.info().then(x => this.onReady());
@@ -106,6 +213,90 @@ export default class Client{
         }
     }
 
+    /**
+     * Returns a client which shares everything with this client but uses different request options.
+     * Use it to override the request options for a call!
+     * 
+     * @param options The request options to override
+     * @example const playlist = await client.withOptions({ strict: true, signal: controller.signal, timeout: 5000 }).playlists.get('id');
+     */
+    withOptions(options: RequestOptions): Client {
+        const client: Client = Object.create(this);
+        const user: UserClient = Object.create(this.user);
+        const util: Util = Object.create(this.util);
+
+        Object.defineProperty(client, 'requestOptions', { value: { ...this.requestOptions, ...options } });
+        Object.defineProperty(util, 'requestOptions', { value: client.requestOptions });
+        Object.defineProperty(client, 'util', { value: util });
+        Object.defineProperty(client, 'user', { value: user });
+        Object.defineProperty(user, 'client', { value: client });
+        Object.defineProperty(user, 'player', { value: new PlayerManager(client) });
+        defineManagers(client);
+
+        return client;
+    }
+
+    /**
+     * Listens to an event of the client!
+     * 
+     * @param event The name of the event
+     * @param listener The function called with the payload of the event
+     * @example client.on('response', ({ manager, status, duration }) => metrics.record(manager, status, duration));
+     */
+    on<K extends keyof ClientEvents>(event: K, listener: (...args: ClientEvents[K]) => void): this {
+        return super.on(event, listener as (...args: any[]) => void);
+    }
+
+    /**
+     * Listens to an event of the client only once!
+     * 
+     * @param event The name of the event
+     * @param listener The function called with the payload of the event
+     * @example client.once('ready', () => console.log('Ready!'));
+     */
+    once<K extends keyof ClientEvents>(event: K, listener: (...args: ClientEvents[K]) => void): this {
+        return super.once(event, listener as (...args: any[]) => void);
+    }
+
+    /**
+     * Removes a listener of an event of the client!
+     * 
+     * @param event The name of the event
+     * @param listener The listener to remove
+     * @example client.off('response', listener);
+     */
+    off<K extends keyof ClientEvents>(event: K, listener: (...args: ClientEvents[K]) => void): this {
+        return super.off(event, listener as (...args: any[]) => void);
+    }
+
+    /**
+     * Emits an event of the client. Unlike other emitters, the error event is not thrown when there are no listeners
+     * as the errors are already thrown or handled by the methods which made the request!
+     * 
+     * @param event The name of the event
+     * @param args The payload of the event
+     * @example client.emit('cacheHit', { cache: 'tracks', id: 'id' });
+     */
+    emit<K extends keyof ClientEvents>(event: K, ...args: ClientEvents[K]): boolean {
+        if(event == 'error' && !this.listenerCount('error')) return false;
+        return super.emit(event, ...args);
+    }
+
+    /**
+     * Adds a middleware to the request pipeline of the client. Middlewares run in the order they were added
+     * and each one can rewrite the request, resolve a cached response without calling next, observe the timing or transform the errors!
+     * 
+     * @param middleware The middleware to add
+     * @example client.use(async (req, next) => {
+     *     req.options.headers = { ...req.options.headers, 'X-Trace-ID': traceID };
+     *     return await next(req);
+     * });
+     */
+    use(middleware: Middleware): this {
+        this.util.use(middleware);
+        return this;
+    }
+
     /**
      * Relogin to the spotify client!
      * 
@@ -117,7 +308,8 @@ export default class Client{
      *    clientSecret: 'secret',
      *    code: 'code', // If attempting to get user token through authorization
      *    refreshToken: 'token', // If attempting to refresh token!
-     *    redirectURL: 'url' // Needs to be the same what you have enetered while authorizing the token!
+     *    redirectURL: 'url', // Needs to be the same what you have enetered while authorizing the token!
+     *    codeVerifier: 'verifier' // If using the PKCE flow, then the client secret is not required!
      * }) 
      */
     async login(token: string): Promise<void>;
@@ -125,24 +317,161 @@ export default class Client{
     async login(options: GetUserTokenOptions): Promise<void | AuthRefresh>;
     async login(options: string | GetUserTokenOptions, clientSecret?: string): Promise<void | AuthRefresh> {
         if(typeof clientSecret == 'string'){
-            this.token = await this.auth.getApiToken(options as string, clientSecret);
-            this.util.token = this.token;
-            this.auth.token = this.token;
+            const data = await this.auth.getApiTokenDetails(options as string, clientSecret);
+            this.credentials = { clientID: options as string, clientSecret };
+            this.storeKey = options as string;
+            this.setToken(data.accessToken, data.expiresIn);
+            await this.saveToken();
             this.onReady();
         } else if(typeof options == 'string' && !clientSecret){
-            this.token = options;
-            this.util.token = this.token;
-            this.auth.token = this.token;
+            this.credentials = null;
+            this.storeKey = null;
+            this.setToken(options);
             this.onReady();
         } else {
-            const data = await this.auth.getUserToken(options as GetUserTokenOptions);
-            this.token = data.accessToken;
-            this.util.token = this.token;
-            this.auth.token = this.token;
-            if(this.cacheOptions.cacheCurrentUser) await this.user.info();
+            options = options as GetUserTokenOptions;
+            const data = await this.auth.getUserToken(options);
+
+            this.credentials = {
+                clientID: options.clientID,
+                clientSecret: options.clientSecret,
+                redirectURL: options.redirectURL,
+                refreshToken: data.refreshToken || options.refreshToken
+            };
+
+            this.setToken(data.accessToken, data.expiresIn);
+            if(this.cacheOptions.cacheCurrentUser || this.tokenStore) await this.user.info();
+
+            this.storeKey = this.user.id || null;
+            await this.saveToken();
             this.onReady();
             return data;
         }
     }
 
+    /**
+     * Refreshes the token of the client using the credentials used while logging in!
+     * This is called automatically when the token is about to expire or when spotify responds with 401!
+     * The token store is locked while refreshing if it supports locks and the token is read again so that a token refreshed by another process is used.
+     * Returns false if the client has no credentials to refresh the token.
+     * 
+     * @example await client.refresh();
+     */
+    async refresh(): Promise<boolean> {
+        const credentials = this.credentials;
+        if(!credentials) return false;
+
+        const release = this.tokenStore?.lock && this.storeKey ? await this.tokenStore.lock(this.storeKey) : null;
+
+        try{
+            if(this.tokenStore && this.storeKey){
+                const stored = await this.tokenStore.get(this.storeKey);
+
+                if(stored){
+                    if(stored.refreshToken) credentials.refreshToken = stored.refreshToken;
+
+                    // Some other process has already refreshed the token!
+                    if(stored.accessToken != this.token && (!stored.expiresAt || stored.expiresAt - Date.now() > REFRESH_MARGIN)){
+                        this.setToken(stored.accessToken);
+                        this.util.expiresAt = stored.expiresAt || null;
+                        this.emit('tokenRefreshed', { token: this.token, expiresAt: this.util.expiresAt });
+                        return true;
+                    }
+                }
+            }
+
+            if(credentials.refreshToken){
+                const data = await this.auth.getUserToken({
+                    clientID: credentials.clientID,
+                    clientSecret: credentials.clientSecret,
+                    redirectURL: credentials.redirectURL || '',
+                    refreshToken: credentials.refreshToken
+                });
+
+                if(data.refreshToken) credentials.refreshToken = data.refreshToken;
+                this.setToken(data.accessToken, data.expiresIn);
+            } else if(credentials.clientSecret){
+                const data = await this.auth.getApiTokenDetails(credentials.clientID, credentials.clientSecret);
+                this.setToken(data.accessToken, data.expiresIn);
+            } else return false;
+
+            await this.saveToken();
+        }finally{
+            if(release) await release();
+        }
+
+        this.emit('tokenRefreshed', { token: this.token, expiresAt: this.util.expiresAt });
+        return true;
+    }
+
+    /**
+     * Logins using the token saved in the token store of the client!
+     * Returns false if no token has been stored for the user.
+     * 
+     * @param id The spotify user id or the client id if the token was an api token
+     * @param credentials The credentials used to refresh the token once it expires
+     * @example await client.restore('user_id', {
+     *    clientID: 'id',
+     *    clientSecret: 'secret'
+     * });
+     */
+    async restore(id: string, credentials?: Omit<ClientCredentials, 'refreshToken'>): Promise<boolean> {
+        const stored = this.tokenStore ? await this.tokenStore.get(id) : null;
+        if(!stored) return false;
+
+        this.credentials = credentials ? { ...credentials, refreshToken: stored.refreshToken } : null;
+        this.storeKey = id;
+        this.setToken(stored.accessToken);
+        this.util.expiresAt = stored.expiresAt || null;
+
+        if(this.cacheOptions.cacheCurrentUser) await this.user.info();
+        this.onReady();
+        return true;
+    }
+
+    /**
+     * Sets the token of the client and all of its utilities!
+     * 
+     * @param token Your spotify token
+     * @param expiresIn Seconds after which the token expires
+     * @example client.setToken('token', 3600);
+     */
+    setToken(token: string, expiresIn?: number): void {
+        this.token = token;
+        this.util.token = token;
+        this.util.expiresAt = expiresIn ? Date.now() + expiresIn * 1000 : null;
+        this.auth.token = token;
+    }
+
+    /**
+     * Saves the current token to the token store of the client!
+     * @example await client.saveToken();
+     */
+    async saveToken(): Promise<void> {
+        if(!this.tokenStore || !this.storeKey) return;
+
+        await this.tokenStore.set(this.storeKey, {
+            accessToken: this.token,
+            refreshToken: this.credentials?.refreshToken,
+            expiresAt: this.util.expiresAt
+        });
+    }
+
+}
+
+/**
+ * Defines all the managers of the client!
+ * 
+ * @param client Your spotify client
+ */
+function defineManagers(client: Client): void {
+    Object.defineProperty(client, 'users', { value: new UserManager(client) });
+    Object.defineProperty(client, 'playlists', { value: new PlaylistManager(client) });
+    Object.defineProperty(client, 'episodes', { value: new EpisodeManager(client) });
+    Object.defineProperty(client, 'shows', { value: new ShowManager(client) });
+    Object.defineProperty(client, 'browse', { value: new BrowseManager(client) });
+    Object.defineProperty(client, 'tracks', { value: new TrackManager(client) });
+    Object.defineProperty(client, 'albums', { value: new AlbumManager(client) });
+    Object.defineProperty(client, 'artists', { value: new ArtistManager(client) });
+    Object.defineProperty(client, 'search', { value: SearchManager(client) });
 }
\ No newline at end of file
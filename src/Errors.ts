@@ -1,9 +1,19 @@
-import { AxiosError, AxiosResponse } from "axios";
+import { RequestOptions } from "./Types";
+import { TransportRequest, TransportResponse } from "./utils/Transport";
 
 /**
  * File where all errors exists. Custom errors are used to help users to know what error they are facing...
  */
 
+/**
+ * An error which carries the request and the response such as the TransportError!
+ */
+export interface ResponseError{
+    message?: string;
+    config?: { url?: string; method?: string };
+    response?: TransportResponse;
+}
+
 export class UtilityError extends Error{
     
     name: string;
@@ -20,10 +30,30 @@ export class UtilityError extends Error{
 
 };
 
+export class TransportError extends Error{
+
+    config: TransportRequest;
+    response: TransportResponse;
+
+    /**
+     * This error is thrown when a transport resolves an error status code. It is converted into the spotify api errors by the client!
+     * 
+     * @param request The request sent through the transport
+     * @param response The response resolved by the transport
+     */
+    constructor(request: TransportRequest, response: TransportResponse){
+        super(`Request failed with status code ${response.status}`);
+        this.name = 'TransportError';
+        this.config = request;
+        this.response = response;
+    };
+
+};
+
 export class UnexpectedError extends Error{
 
     name: string;
-    response?: AxiosResponse;
+    response?: TransportResponse;
     isSpotifyError: boolean;
 
     /**
@@ -46,13 +76,204 @@ export class UnexpectedError extends Error{
 
 };
 
+export class SpotifyAPIError extends UnexpectedError{
+
+    status: number;
+    spotifyMessage: string | null;
+    reason: string | null;
+    method: string | null;
+    path: string | null;
+
+    /**
+     * This error occurs when the spotify api responds with an error status code!
+     * The status, spotify's error message, the player reason code, the request method and path are exposed to know what went wrong!
+     * 
+     * @param res The error which carries the response
+     */
+    constructor(res: ResponseError) {
+        super(res);
+
+        const response = res.response as TransportResponse;
+        const error = response.data?.error;
+        const url = res.config?.url;
+
+        this.name = 'SpotifyAPIError';
+        this.status = response.status;
+        this.spotifyMessage = (typeof error == 'object' ? error?.message : response.data?.error_description || error) || null;
+        this.reason = (typeof error == 'object' && error?.reason) || null;
+        this.method = res.config?.method?.toUpperCase() || null;
+        this.path = url ? new URL(url, 'https://api.spotify.com').pathname : null;
+        this.message = `${this.spotifyMessage || 'Unknown error'} (${this.status}${this.method ? ` ${this.method}` : ''}${this.path ? ` ${this.path}` : ''})`;
+    };
+
+};
+
+export class BadRequestError extends SpotifyAPIError{
+
+    /**
+     * This error occurs when the spotify api responds with 400, mostly because of invalid parameters!
+     * 
+     * @param res The error which carries the response
+     */
+    constructor(res: ResponseError) {
+        super(res);
+        this.name = 'BadRequestError';
+    };
+
+};
+
+export class AuthenticationError extends SpotifyAPIError{
+
+    /**
+     * This error occurs when the spotify api responds with 401, mostly because the token is invalid or has expired!
+     * 
+     * @param res The error which carries the response
+     */
+    constructor(res: ResponseError) {
+        super(res);
+        this.name = 'AuthenticationError';
+    };
+
+};
+
+export class ForbiddenError extends SpotifyAPIError{
+
+    /**
+     * This error occurs when the spotify api responds with 403. Check the `reason` field for player errors such as `PREMIUM_REQUIRED`!
+     * 
+     * @param res The error which carries the response
+     */
+    constructor(res: ResponseError) {
+        super(res);
+        this.name = 'ForbiddenError';
+    };
+
+};
+
+export class MissingScopeError extends ForbiddenError{
+
+    /**
+     * This error occurs when the spotify api responds with 403 because the token was not authorized with the required scope!
+     * 
+     * @param res The error which carries the response
+     */
+    constructor(res: ResponseError) {
+        super(res);
+        this.name = 'MissingScopeError';
+    };
+
+};
+
+export class NotFoundError extends SpotifyAPIError{
+
+    /**
+     * This error occurs when the spotify api responds with 404!
+     * 
+     * @param res The error which carries the response
+     */
+    constructor(res: ResponseError) {
+        super(res);
+        this.name = 'NotFoundError';
+    };
+
+};
+
+export class RateLimitError extends SpotifyAPIError{
+
+    retryAfter: number;
+
+    /**
+     * This error occurs when the spotify api responds with 429 and the request could not be retried!
+     * The `retryAfter` field is the number of seconds to wait before retrying.
+     * 
+     * @param res The error which carries the response
+     */
+    constructor(res: ResponseError) {
+        super(res);
+        this.name = 'RateLimitError';
+        this.retryAfter = Number(res.response?.headers?.['retry-after']) || 0;
+    };
+
+};
+
+export class ServerError extends SpotifyAPIError{
+
+    /**
+     * This error occurs when the spotify api responds with 5xx!
+     * 
+     * @param res The error which carries the response
+     */
+    constructor(res: ResponseError) {
+        super(res);
+        this.name = 'ServerError';
+    };
+
+};
+
+export class AbortError extends UnexpectedError{
+
+    /**
+     * This error occurs when the request has been cancelled using the abort signal passed through the request options!
+     * 
+     * @param message Error message
+     */
+    constructor(message: string = 'The request was aborted!') {
+        super(message);
+        this.name = 'AbortError';
+    };
+
+};
+
+export class TimeoutError extends UnexpectedError{
+
+    timeout: number;
+
+    /**
+     * This error occurs when the request did not complete within the timeout of the request options!
+     * 
+     * @param timeout The timeout in milliseconds
+     */
+    constructor(timeout: number) {
+        super(`The request timed out after ${timeout}ms!`);
+        this.name = 'TimeoutError';
+        this.timeout = timeout;
+    };
+
+};
+
+/**
+ * Creates the error class according to the response status of the error!
+ * Errors which are already created or which do not carry a response will be returned as UnexpectedError.
+ * 
+ * @param e The error which carries the response
+ * @example throw createError(e);
+ */
+export function createError(e: ResponseError): UnexpectedError {
+    if(e instanceof UnexpectedError) return e;
+
+    const status = e?.response?.status;
+    if(!status) return new UnexpectedError(e);
+
+    switch(status){
+        case 400: return new BadRequestError(e);
+        case 401: return new AuthenticationError(e);
+        case 403: return /scope/i.test(JSON.stringify(e.response?.data)) ? new MissingScopeError(e) : new ForbiddenError(e);
+        case 404: return new NotFoundError(e);
+        case 429: return new RateLimitError(e);
+        default: return status >= 500 ? new ServerError(e) : new SpotifyAPIError(e);
+    }
+}
+
 /**
- * A method to handle error which are thrown by axios only else will directly throw error too!
+ * A method to handle error which are thrown by the transport only else will directly throw error too!
+ * Returns null on 404 unless the strict option is enabled.
  * 
- * @param e Axios error object
+ * @param e The error which carries the response
+ * @param options The request options of the client
  * @warning Not for direct use!
  */
-export function handleError(e: AxiosError): null | never {
-    if(e.response && e.response.status == 404) return null
-    else throw new UnexpectedError(e);
+export function handleError(e: ResponseError, options?: RequestOptions): null | never {
+    const error = createError(e);
+    if(error instanceof NotFoundError && !options?.strict) return null;
+    else throw error;
 }
\ No newline at end of file
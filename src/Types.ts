@@ -13,6 +13,29 @@ export type SpotifyTypes = 'user' | 'episode' | 'playlist' | 'show' | 'track' |
  */
 export type SpotifyURI = `spotify:${SpotifyTypes}:${string}:${SpotifyTypes}:${string}` | `spotify:${SpotifyTypes | 'search'}:${string}`;
 
+/**
+ * All the authorization scopes of spotify api!
+ */
+export type Scope = 'ugc-image-upload'
+    | 'user-read-playback-state'
+    | 'user-modify-playback-state'
+    | 'user-read-currently-playing'
+    | 'user-read-playback-position'
+    | 'user-read-recently-played'
+    | 'user-top-read'
+    | 'user-read-private'
+    | 'user-read-email'
+    | 'user-follow-read'
+    | 'user-follow-modify'
+    | 'user-library-read'
+    | 'user-library-modify'
+    | 'playlist-read-private'
+    | 'playlist-read-collaborative'
+    | 'playlist-modify-public'
+    | 'playlist-modify-private'
+    | 'app-remote-control'
+    | 'streaming';
+
 /**
  * Just a simple raw object!
  */
@@ -157,6 +180,21 @@ export interface Restriction<T = string>{
     reason: T;
 }
 
+/**
+ * Options of the requests which can be set by the client options or overridden per call using the last argument of the methods or client.withOptions!
+ */
+export interface RequestOptions{
+    strict?: boolean;
+    signal?: AbortSignal;
+    timeout?: number;
+    retry?: boolean;
+}
+
+/**
+ * Spotify ids optionally followed by the request options of the call!
+ */
+export type IDsWithOptions = string[] | [...string[], RequestOptions];
+
 /**
  * Paging options
  */
@@ -207,10 +245,36 @@ export interface AffinityOptions{
  * Spotify Api's Paging Object
  */
 export interface Paging<T>{
+    href: string | null;
     limit: number;
     offset: number;
     total: number;
     items: T[];
+    nextUrl: string | null;
+    previousUrl: string | null;
+    next(): Promise<Paging<T> | null>;
+    previous(): Promise<Paging<T> | null>;
+}
+
+/**
+ * Spotify Api's Cursor Paging Object
+ */
+export interface CursorPaging<T>{
+    href: string | null;
+    limit: number;
+    total?: number;
+    items: T[];
+    cursors: Cursors;
+    nextUrl: string | null;
+    next(): Promise<CursorPaging<T> | null>;
+}
+
+/**
+ * Spotify Api's Cursor Object
+ */
+export interface Cursors{
+    after: string | null;
+    before?: string | null;
 }
 
 /**
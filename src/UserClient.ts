@@ -1,6 +1,9 @@
 import Client from './Client';
-import { handleError, UnexpectedError } from './Errors';
-import { AffinityOptions, Image, Paging, PagingOptions, RawObject } from './Types';
+import { FetchOptions, splitRequestOptions } from './Util';
+import { createError, handleError, UnexpectedError } from './Errors';
+import { forEachChunk, mapChunks } from './utils/Chunks';
+import { createCursorPaging, createPaging, emptyCursorPaging, emptyPaging } from './utils/Paging';
+import { AffinityOptions, CursorPaging, IDsWithOptions, Image, Paging, PagingOptions, RawObject, RequestOptions } from './Types';
 import Track from './structures/Track';
 import Artist from './structures/Artist';
 import Album from './structures/Album';
@@ -73,15 +76,26 @@ export default class UserClient{
 
     }
 
+    /**
+     * Fetches from the spotify api and labels the request events with the UserClient!
+     * 
+     * @param url The path from spotify api to fetch!
+     * @param options The additional options required to fetch
+     */
+    private fetch(url: string, options?: FetchOptions): Promise<any> {
+        return this.client.util.fetch(url, { manager: 'UserClient', ...options });
+    }
+
     /**
      * Returns current user details
      * 
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example const user = await user.info(); 
      */
-    async info(): Promise<this> {
+    async info(requestOptions?: RequestOptions): Promise<this> {
 
         try{
-            const data = await this.client.util.fetch('/me');
+            const data = await (requestOptions ? this.client.withOptions(requestOptions).user : this).fetch('/me');
 
             this.name = data.display_name;
             this.country = data.country || 'unknown';
@@ -94,7 +108,7 @@ export default class UserClient{
             this.product = data.product || 'unknown';
             this.uri = data.uri;
         }catch(e){
-            throw new UnexpectedError(e);
+            throw createError(e);
         }
 
         return this;
@@ -105,26 +119,18 @@ export default class UserClient{
      * Returns the top tracks of the current user!
      * 
      * @param options Basic AffinityOptions
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example await user.getTopTracks();
      */
-    async getTopTracks(options: AffinityOptions = {}): Promise<Paging<Track>> {
+    async getTopTracks(options: AffinityOptions = {}, requestOptions?: RequestOptions): Promise<Paging<Track>> {
+        if(requestOptions) return this.client.withOptions(requestOptions).user.getTopTracks(options);
 
         try{
-            const tracks = (await this.client.util.fetch('/me/top/tracks', { params: options as RawObject }));
-
-            return {
-                limit: tracks.limit,
-                offset: tracks.offset,
-                total: tracks.total,
-                items: tracks.items.map(x => new Track(x, this.client))
-            };;
+            const tracks = (await this.fetch('/me/top/tracks', { params: options as RawObject }));
+
+            return createPaging(tracks, this.client, x => new Track(x, this.client), undefined, { manager: 'UserClient' });
         }catch(e){
-            return handleError(e) || {
-                limit: 0,
-                offset: 0,
-                total: 0,
-                items: []
-            };
+            return handleError(e, this.client.requestOptions) || emptyPaging();
         }
 
     }
@@ -133,26 +139,18 @@ export default class UserClient{
      * Returns the top artists of the current user!
      * 
      * @param options Basic AffinityOptions
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example await user.getTopArtists();
      */
-    async getTopArtists(options: AffinityOptions = {}): Promise<Paging<Artist>> {
+    async getTopArtists(options: AffinityOptions = {}, requestOptions?: RequestOptions): Promise<Paging<Artist>> {
+        if(requestOptions) return this.client.withOptions(requestOptions).user.getTopArtists(options);
 
         try{
-            const artists = (await this.client.util.fetch('/me/top/artists', {  params: options as RawObject }));
-
-            return {
-                limit: artists.limit,
-                offset: artists.offset,
-                total: artists.total,
-                items: artists.items.map(x => new Artist(x, this.client))
-            };
+            const artists = (await this.fetch('/me/top/artists', {  params: options as RawObject }));
+
+            return createPaging(artists, this.client, x => new Artist(x, this.client), undefined, { manager: 'UserClient' });
         }catch(e){
-            return handleError(e) || {
-                limit: 0,
-                offset: 0,
-                total: 0,
-                items: []
-            };
+            return handleError(e, this.client.requestOptions) || emptyPaging();
         }
 
     }
@@ -162,14 +160,16 @@ export default class UserClient{
      * 
      * @param id The id of the playlist!
      * @param options Options such as public!
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example await client.user.followPlaylist('id');
      */
     async followPlaylist(id: string, options: {
         public?: boolean;
-    } = { public: true }): Promise<boolean> {
+    } = { public: true }, requestOptions?: RequestOptions): Promise<boolean> {
+        if(requestOptions) return this.client.withOptions(requestOptions).user.followPlaylist(id, options);
 
         try{
-            await this.client.util.fetch(`/playlists/${id}/followers`, {
+            await this.fetch(`/playlists/${id}/followers`, {
                 method: 'PUT',
                 headers: {
                     "Content-Type": "application/json"
@@ -179,9 +179,10 @@ export default class UserClient{
                 }
             });
 
+            this.client.cache.remove('playlists', id);
             return true;
         }catch(e){
-            return handleError(e) || false;
+            return handleError(e, this.client.requestOptions) || false;
         }
 
     }
@@ -190,15 +191,18 @@ export default class UserClient{
      * Unfollow a playlist by id!
      * 
      * @param id The id of the playlist!
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example await client.user.unfollowPlaylist('id');
      */
-    async unfollowPlaylist(id: string): Promise<boolean> {
+    async unfollowPlaylist(id: string, requestOptions?: RequestOptions): Promise<boolean> {
+        if(requestOptions) return this.client.withOptions(requestOptions).user.unfollowPlaylist(id);
 
         try{
-            await this.client.util.fetch(`/playlists/${id}/followers`, { method: 'DELETE' });
+            await this.fetch(`/playlists/${id}/followers`, { method: 'DELETE' });
+            this.client.cache.remove('playlists', id);
             return true;
         }catch(e){
-            return handleError(e) || false;
+            return handleError(e, this.client.requestOptions) || false;
         }
 
     }
@@ -207,9 +211,12 @@ export default class UserClient{
      * Verify if the current user follows a paticualr playlist by id!
      * 
      * @param id Spotify playlist id
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example const follows = await client.user.followsPlaylist('id');
      */
-    async followsPlaylist(id: string): Promise<boolean> {
+    async followsPlaylist(id: string, requestOptions?: RequestOptions): Promise<boolean> {
+        if(requestOptions) return this.client.withOptions(requestOptions).user.followsPlaylist(id);
+
         return (await this.client.playlists.userFollows(id, this.id))[0] || false;
     }
 
@@ -217,26 +224,18 @@ export default class UserClient{
      * Returns the current user's saved playlists!
      * 
      * @param options Basic PagingOptions
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example const playlists = await client.user.getPlaylists();
      */
-    async getPlaylists(options?: PagingOptions): Promise<Paging<Playlist>> {
+    async getPlaylists(options?: PagingOptions, requestOptions?: RequestOptions): Promise<Paging<Playlist>> {
+        if(requestOptions) return this.client.withOptions(requestOptions).user.getPlaylists(options);
 
         try{
-            const data = await this.client.util.fetch('/me/playlists', { params: options });
-
-            return {
-                limit: data.limit,
-                offset: data.offset,
-                total: data.total,
-                items: data.items.map(x => new Playlist(x, this.client))
-            }
+            const data = await this.fetch('/me/playlists', { params: options });
+
+            return createPaging(data, this.client, x => new Playlist(x, this.client), undefined, { manager: 'UserClient' });
         }catch(e){
-            return handleError(e) || {
-                limit: 0,
-                offset: 0,
-                total: 0,
-                items: []
-            };
+            return handleError(e, this.client.requestOptions) || emptyPaging();
         }
 
     }
@@ -245,6 +244,7 @@ export default class UserClient{
      * Create a spotify playlist for yourself or for the current user!
      * 
      * @param options Options to create a playlist!
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example await client.user.createPlaylist({
      *     name: 'Funky playlist',
      *     description: 'My own cool playlist created by spotify-api.js',
@@ -253,12 +253,13 @@ export default class UserClient{
      *     userID: client.user.id // By default will be the current user id!
      * });
      */
-    async createPlaylist(options: CreatePlaylist): Promise<Playlist | null> {
+    async createPlaylist(options: CreatePlaylist, requestOptions?: RequestOptions): Promise<Playlist | null> {
+        if(requestOptions) return this.client.withOptions(requestOptions).user.createPlaylist(options);
 
         try{
             if(!options || !options.name) throw new UnexpectedError('No name has been provided to create a playlist!');
 
-            const playlist = new Playlist(await this.client.util.fetch(`/users/${options.userID || this.id}/playlists`, {
+            const playlist = new Playlist(await this.fetch(`/users/${options.userID || this.id}/playlists`, {
                 method: 'POST',
                 headers: {
                     "Content-Type": "application/json"
@@ -271,9 +272,10 @@ export default class UserClient{
                 }
             }), this.client);
 
+            if(this.client.cacheOptions.cachePlaylists) this.client.cache.add('playlists', playlist);
             return playlist;
         }catch(e){
-            return handleError(e) || null;
+            return handleError(e, this.client.requestOptions) || null;
         }
 
     }
@@ -283,14 +285,16 @@ export default class UserClient{
      * 
      * @param id ID of the spotify playlist
      * @param options CreatePlaylist object but userID field should not be provided!
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example await client.user.editPlaylist('id', {
      *     description: 'Edited new description'
      * });
      */
-    async editPlaylist(id: string, options: Omit<CreatePlaylist, 'userID'>): Promise<boolean> {
+    async editPlaylist(id: string, options: Omit<CreatePlaylist, 'userID'>, requestOptions?: RequestOptions): Promise<boolean> {
+        if(requestOptions) return this.client.withOptions(requestOptions).user.editPlaylist(id, options);
 
         try{
-            await this.client.util.fetch(`/playlists/${id}`, {
+            await this.fetch(`/playlists/${id}`, {
                 method: 'PUT',
                 headers: {
                     "Content-Type": "application/json"
@@ -298,9 +302,10 @@ export default class UserClient{
                 body: options
             })
 
+            this.client.cache.patch('playlists', id, options);
             return true;
         }catch(e){
-            return handleError(e) || false;
+            return handleError(e, this.client.requestOptions) || false;
         }
 
     }
@@ -309,34 +314,26 @@ export default class UserClient{
      * Returns the user's following list of artists!
      * 
      * @param options Options such as after and limit!
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example const artists = await client.user.getFollowingArtists();
      */
     async getFollowingArtists(options?: {
-        after?: string;
+        after?: string | null;
         limit?: number;
-    }): Promise<Paging<Artist>> {
+    }, requestOptions?: RequestOptions): Promise<CursorPaging<Artist>> {
+        if(requestOptions) return this.client.withOptions(requestOptions).user.getFollowingArtists(options);
 
         try{
-            const artists = (await this.client.util.fetch('/me/following', {
+            const artists = (await this.fetch('/me/following', {
                 params: {
                     ...options as RawObject,
                     type: 'artist'
                 }
             })).artists;
 
-            return {
-                limit: artists.limit,
-                offset: artists.offset,
-                total: artists.total,
-                items: artists.items.map(x => new Artist(x, this.client))
-            };
+            return createCursorPaging(artists, this.client, x => new Artist(x, this.client), 'artists', { manager: 'UserClient' });
         }catch(e){
-            return handleError(e) || {
-                limit: 0,
-                offset: 0,
-                total: 0,
-                items: []
-            };
+            return handleError(e, this.client.requestOptions) || emptyCursorPaging();
         }
 
     }
@@ -344,23 +341,26 @@ export default class UserClient{
     /**
      * Follow artists with their spotify ids!
      * 
-     * @param ids An array of spotify artist ids
+     * @param args An array of spotify artist ids, optionally followed by the request options of the call
      * @example await client.user.followArtists('id1', 'id2');
      */
-    async followArtists(...ids: string[]): Promise<boolean> {
+    async followArtists(...args: IDsWithOptions): Promise<boolean> {
+        const [ids, requestOptions] = splitRequestOptions(args);
+        if(requestOptions) return this.client.withOptions(requestOptions).user.followArtists(...ids);
 
         try{
-            await this.client.util.fetch(`/me/following`, {
+            await forEachChunk(ids, 50, chunk => this.fetch(`/me/following`, {
                 method: 'PUT',
                 params: {
                     type: 'artist',
-                    ids: ids.join(',')
+                    ids: chunk.join(',')
                 }
-            });
+            }), this.client.util.concurrency);
 
+            this.client.cache.remove('artists', ...ids);
             return true;
         }catch(e){
-            return handleError(e) || false;
+            return handleError(e, this.client.requestOptions) || false;
         }
 
     }
@@ -368,23 +368,26 @@ export default class UserClient{
     /**
      * Unfollow artists with their spotify ids!
      * 
-     * @param ids An array of spotify artist ids
+     * @param args An array of spotify artist ids, optionally followed by the request options of the call
      * @example await client.user.unfollowArtists('id1', 'id2');
      */
-    async unfollowArtists(...ids: string[]): Promise<boolean> {
+    async unfollowArtists(...args: IDsWithOptions): Promise<boolean> {
+        const [ids, requestOptions] = splitRequestOptions(args);
+        if(requestOptions) return this.client.withOptions(requestOptions).user.unfollowArtists(...ids);
 
         try{
-            await this.client.util.fetch(`/me/following`, {
+            await forEachChunk(ids, 50, chunk => this.fetch(`/me/following`, {
                 method: 'DELETE',
                 params: {
                     type: 'artist',
-                    ids: ids.join(',')
+                    ids: chunk.join(',')
                 }
-            });
+            }), this.client.util.concurrency);
 
+            this.client.cache.remove('artists', ...ids);
             return true;
         }catch(e){
-            return handleError(e) || false;
+            return handleError(e, this.client.requestOptions) || false;
         }
 
     }
@@ -392,23 +395,26 @@ export default class UserClient{
     /**
      * Follow users with their spotify ids!
      * 
-     * @param ids An array of spotify user ids
+     * @param args An array of spotify user ids, optionally followed by the request options of the call
      * @example await client.user.followUsers('id1', 'id2');
      */
-    async followUsers(...ids: string[]): Promise<boolean> {
+    async followUsers(...args: IDsWithOptions): Promise<boolean> {
+        const [ids, requestOptions] = splitRequestOptions(args);
+        if(requestOptions) return this.client.withOptions(requestOptions).user.followUsers(...ids);
 
         try{
-            await this.client.util.fetch(`/me/following`, {
+            await forEachChunk(ids, 50, chunk => this.fetch(`/me/following`, {
                 method: 'PUT',
                 params: {
                     type: 'user',
-                    ids: ids.join(',')
+                    ids: chunk.join(',')
                 }
-            });
+            }), this.client.util.concurrency);
 
+            this.client.cache.remove('users', ...ids);
             return true;
         }catch(e){
-            return handleError(e) || false;
+            return handleError(e, this.client.requestOptions) || false;
         }
 
     }
@@ -416,23 +422,26 @@ export default class UserClient{
     /**
      * Unfollow users with their spotify ids!
      * 
-     * @param ids An array of spotify user ids
+     * @param args An array of spotify user ids, optionally followed by the request options of the call
      * @example await client.user.unfollowUsers('id1', 'id2');
      */
-    async unfollowUsers(...ids: string[]): Promise<boolean> {
+    async unfollowUsers(...args: IDsWithOptions): Promise<boolean> {
+        const [ids, requestOptions] = splitRequestOptions(args);
+        if(requestOptions) return this.client.withOptions(requestOptions).user.unfollowUsers(...ids);
 
         try{
-            await this.client.util.fetch(`/me/following`, {
+            await forEachChunk(ids, 50, chunk => this.fetch(`/me/following`, {
                 method: 'DELETE',
                 params: {
                     type: 'user',
-                    ids: ids.join(',')
+                    ids: chunk.join(',')
                 }
-            });
+            }), this.client.util.concurrency);
 
+            this.client.cache.remove('users', ...ids);
             return true;
         }catch(e){
-            return handleError(e) || false;
+            return handleError(e, this.client.requestOptions) || false;
         }
 
     }
@@ -440,20 +449,22 @@ export default class UserClient{
     /**
      * Verify if the array of artists supplied is been followed by you!
      * 
-     * @param ids Array of spotify artist ids
+     * @param args Array of spotify artist ids, optionally followed by the request options of the call
      * @example const [followsArtist] = await client.user.followsArtists('id1');
      */
-    async followsArtists(...ids: string[]): Promise<boolean[]> {
+    async followsArtists(...args: IDsWithOptions): Promise<boolean[]> {
+        const [ids, requestOptions] = splitRequestOptions(args);
+        if(requestOptions) return this.client.withOptions(requestOptions).user.followsArtists(...ids);
 
         try{
-            return await this.client.util.fetch(`/me/following/contains`, {
+            return await mapChunks(ids, 50, chunk => this.fetch(`/me/following/contains`, {
                 params: {
                     type: 'artist',
-                    ids: ids.join(',')
+                    ids: chunk.join(',')
                 }
-            })
+            }), this.client.util.concurrency);
         }catch(e){
-            return handleError(e) || [];
+            return handleError(e, this.client.requestOptions) || [];
         }
 
     }
@@ -461,20 +472,22 @@ export default class UserClient{
     /**
      * Verify if the array of users supplied is been followed by you!
      * 
-     * @param ids Array of spotify users ids
+     * @param args Array of spotify users ids, optionally followed by the request options of the call
      * @example const [followsUser] = await client.user.followsUsers('id1');
      */
-    async followsUsers(...ids: string[]): Promise<boolean[]> {
+    async followsUsers(...args: IDsWithOptions): Promise<boolean[]> {
+        const [ids, requestOptions] = splitRequestOptions(args);
+        if(requestOptions) return this.client.withOptions(requestOptions).user.followsUsers(...ids);
 
         try{
-            return await this.client.util.fetch(`/me/following/contains`, {
+            return await mapChunks(ids, 50, chunk => this.fetch(`/me/following/contains`, {
                 params: {
                     type: 'user',
-                    ids: ids.join(',')
+                    ids: chunk.join(',')
                 }
-            })
+            }), this.client.util.concurrency);
         }catch(e){
-            return handleError(e) || [];
+            return handleError(e, this.client.requestOptions) || [];
         }
 
     }
@@ -483,29 +496,21 @@ export default class UserClient{
      * Returns the saved albums of the current user
      * 
      * @param options Basic PagingOptions
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example const albums = await client.user.getAlbums();
      */
-    async getAlbums(options?: PagingOptions): Promise<Paging<Saved<'album', Album>>> {
+    async getAlbums(options?: PagingOptions, requestOptions?: RequestOptions): Promise<Paging<Saved<'album', Album>>> {
+        if(requestOptions) return this.client.withOptions(requestOptions).user.getAlbums(options);
 
         try{
-            const data = await this.client.util.fetch('/me/albums', { params: options });
-
-            return {
-                limit: data.limit,
-                offset: data.offset,
-                total: data.total,
-                items: data.items.map(x => ({
-                    addedAt: x.added_at,
-                    album: new Album(x.album, this.client)
-                }))
-            }
+            const data = await this.fetch('/me/albums', { params: options });
+
+            return createPaging(data, this.client, x => ({
+                addedAt: x.added_at,
+                album: new Album(x.album, this.client)
+            }), undefined, { manager: 'UserClient' });
         }catch(e){
-            return handleError(e) || {
-                limit: 0,
-                offset: 0,
-                total: 0,
-                items: []
-            };
+            return handleError(e, this.client.requestOptions) || emptyPaging();
         }
 
     }
@@ -513,22 +518,24 @@ export default class UserClient{
     /**
      * Add albums to your spotify savelist!
      * 
-     * @param ids Spotify albums ids to add to your save list!
+     * @param args Spotify albums ids to add to your save list, optionally followed by the request options of the call!
      * @example await client.user.addAlbums('id1', 'id2');
      */
-    async addAlbums(...ids: string[]): Promise<boolean> {
+    async addAlbums(...args: IDsWithOptions): Promise<boolean> {
+        const [ids, requestOptions] = splitRequestOptions(args);
+        if(requestOptions) return this.client.withOptions(requestOptions).user.addAlbums(...ids);
 
         try{
-            await this.client.util.fetch('/me/albums', {
+            await forEachChunk(ids, 20, chunk => this.fetch('/me/albums', {
                 method: 'PUT',
                 params: {
-                    ids: ids.join(',')
+                    ids: chunk.join(',')
                 }
-            })
+            }), this.client.util.concurrency);
 
             return true;
         }catch(e){
-            return handleError(e) || false;
+            return handleError(e, this.client.requestOptions) || false;
         }
 
     }
@@ -536,22 +543,24 @@ export default class UserClient{
     /**
      * Remove albums from your spotify savelist!
      * 
-     * @param ids Spotify albums ids to remove from your save list!
+     * @param args Spotify albums ids to remove from your save list, optionally followed by the request options of the call!
      * @example await client.user.deleteAlbums('id1', 'id2');
      */
-    async deleteAlbums(...ids: string[]): Promise<boolean> {
+    async deleteAlbums(...args: IDsWithOptions): Promise<boolean> {
+        const [ids, requestOptions] = splitRequestOptions(args);
+        if(requestOptions) return this.client.withOptions(requestOptions).user.deleteAlbums(...ids);
 
         try{
-            await this.client.util.fetch('/me/albums', {
+            await forEachChunk(ids, 20, chunk => this.fetch('/me/albums', {
                 method: 'DELETE',
                 params: {
-                    ids: ids.join(',')
+                    ids: chunk.join(',')
                 }
-            })
+            }), this.client.util.concurrency);
 
             return true;
         }catch(e){
-            return handleError(e) || false;
+            return handleError(e, this.client.requestOptions) || false;
         }
 
     }
@@ -559,19 +568,21 @@ export default class UserClient{
     /**
      * Check if those albums exist on the current user's library!
      * 
-     * @param ids Array of spotify album ids
+     * @param args Array of spotify album ids, optionally followed by the request options of the call
      * @example const [hasFirstAlbum, hasSecondAlbum] = await client.user.hasAlbums('id1', 'id2');
      */
-    async hasAlbums(...ids: string[]): Promise<boolean[]> {
+    async hasAlbums(...args: IDsWithOptions): Promise<boolean[]> {
+        const [ids, requestOptions] = splitRequestOptions(args);
+        if(requestOptions) return this.client.withOptions(requestOptions).user.hasAlbums(...ids);
 
         try{
-            return await this.client.util.fetch('/me/albums/contains', {
+            return await mapChunks(ids, 20, chunk => this.fetch('/me/albums/contains', {
                 params: {
-                    ids: ids.join(',')
+                    ids: chunk.join(',')
                 }
-            })
+            }), this.client.util.concurrency);
         }catch(e){
-            return handleError(e) || [];
+            return handleError(e, this.client.requestOptions) || [];
         }
 
     }
@@ -580,29 +591,21 @@ export default class UserClient{
      * Returns the saved tracks of the current user
      * 
      * @param options Basic PagingOptions
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example const tracks = await client.user.getTracks();
      */
-     async getTracks(options?: PagingOptions): Promise<Paging<Saved<'track', Track>>> {
+     async getTracks(options?: PagingOptions, requestOptions?: RequestOptions): Promise<Paging<Saved<'track', Track>>> {
+        if(requestOptions) return this.client.withOptions(requestOptions).user.getTracks(options);
 
         try{
-            const data = await this.client.util.fetch('/me/tracks', { params: options });
-
-            return {
-                limit: data.limit,
-                offset: data.offset,
-                total: data.total,
-                items: data.items.map(x => ({
-                    addedAt: x.added_at,
-                    track: new Track(x.track, this.client)
-                }))
-            }
+            const data = await this.fetch('/me/tracks', { params: options });
+
+            return createPaging(data, this.client, x => ({
+                addedAt: x.added_at,
+                track: new Track(x.track, this.client)
+            }), undefined, { manager: 'UserClient' });
         }catch(e){
-            return handleError(e) || {
-                limit: 0,
-                offset: 0,
-                total: 0,
-                items: []
-            };
+            return handleError(e, this.client.requestOptions) || emptyPaging();
         }
 
     }
@@ -610,22 +613,24 @@ export default class UserClient{
     /**
      * Add tracks to your spotify savelist!
      * 
-     * @param ids Spotify tracks ids to add to your save list!
+     * @param args Spotify tracks ids to add to your save list, optionally followed by the request options of the call!
      * @example await client.user.addTracks('id1', 'id2');
      */
-    async addTracks(...ids: string[]): Promise<boolean> {
+    async addTracks(...args: IDsWithOptions): Promise<boolean> {
+        const [ids, requestOptions] = splitRequestOptions(args);
+        if(requestOptions) return this.client.withOptions(requestOptions).user.addTracks(...ids);
 
         try{
-            await this.client.util.fetch('/me/tracks', {
+            await forEachChunk(ids, 50, chunk => this.fetch('/me/tracks', {
                 method: 'PUT',
                 params: {
-                    ids: ids.join(',')
+                    ids: chunk.join(',')
                 }
-            })
+            }), this.client.util.concurrency);
 
             return true;
         }catch(e){
-            return handleError(e) || false;
+            return handleError(e, this.client.requestOptions) || false;
         }
 
     }
@@ -633,22 +638,24 @@ export default class UserClient{
     /**
      * Remove tracks from your spotify savelist!
      * 
-     * @param ids Spotify tracks ids to remove from your save list!
+     * @param args Spotify tracks ids to remove from your save list, optionally followed by the request options of the call!
      * @example await client.user.deleteTracks('id1', 'id2');
      */
-    async deleteTracks(...ids: string[]): Promise<boolean> {
+    async deleteTracks(...args: IDsWithOptions): Promise<boolean> {
+        const [ids, requestOptions] = splitRequestOptions(args);
+        if(requestOptions) return this.client.withOptions(requestOptions).user.deleteTracks(...ids);
 
         try{
-            await this.client.util.fetch('/me/tracks', {
+            await forEachChunk(ids, 50, chunk => this.fetch('/me/tracks', {
                 method: 'DELETE',
                 params: {
-                    ids: ids.join(',')
+                    ids: chunk.join(',')
                 }
-            })
+            }), this.client.util.concurrency);
 
             return true;
         }catch(e){
-            return handleError(e) || false;
+            return handleError(e, this.client.requestOptions) || false;
         }
 
     }
@@ -656,19 +663,21 @@ export default class UserClient{
     /**
      * Check if those tracks exist on the current user's library!
      * 
-     * @param ids Array of spotify track ids
+     * @param args Array of spotify track ids, optionally followed by the request options of the call
      * @example const [hasFirstTrack, hasSecondTrack] = await client.user.hasTracks('id1', 'id2');
      */
-    async hasTracks(...ids: string[]): Promise<boolean[]> {
+    async hasTracks(...args: IDsWithOptions): Promise<boolean[]> {
+        const [ids, requestOptions] = splitRequestOptions(args);
+        if(requestOptions) return this.client.withOptions(requestOptions).user.hasTracks(...ids);
 
         try{
-            return await this.client.util.fetch('/me/tracks/contains', {
+            return await mapChunks(ids, 50, chunk => this.fetch('/me/tracks/contains', {
                 params: {
-                    ids: ids.join(',')
+                    ids: chunk.join(',')
                 }
-            })
+            }), this.client.util.concurrency);
         }catch(e){
-            return handleError(e) || [];
+            return handleError(e, this.client.requestOptions) || [];
         }
 
     }
@@ -677,29 +686,21 @@ export default class UserClient{
      * Returns the saved episodes of the current user
      * 
      * @param options Basic PagingOptions
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example const episodes = await client.user.getEpisodes();
      */
-     async getEpisodes(options?: PagingOptions): Promise<Paging<Saved<'episode', Episode>>> {
+     async getEpisodes(options?: PagingOptions, requestOptions?: RequestOptions): Promise<Paging<Saved<'episode', Episode>>> {
+        if(requestOptions) return this.client.withOptions(requestOptions).user.getEpisodes(options);
 
         try{
-            const data = await this.client.util.fetch('/me/episodes', { params: options });
-
-            return {
-                limit: data.limit,
-                offset: data.offset,
-                total: data.total,
-                items: data.items.map(x => ({
-                    addedAt: x.added_at,
-                    episode: new Episode(x.episode, this.client)
-                }))
-            }
+            const data = await this.fetch('/me/episodes', { params: options });
+
+            return createPaging(data, this.client, x => ({
+                addedAt: x.added_at,
+                episode: new Episode(x.episode, this.client)
+            }), undefined, { manager: 'UserClient' });
         }catch(e){
-            return handleError(e) || {
-                limit: 0,
-                offset: 0,
-                total: 0,
-                items: []
-            };
+            return handleError(e, this.client.requestOptions) || emptyPaging();
         }
 
     }
@@ -707,22 +708,24 @@ export default class UserClient{
     /**
      * Add episodes to your spotify savelist!
      * 
-     * @param ids Spotify episodes ids to add to your save list!
+     * @param args Spotify episodes ids to add to your save list, optionally followed by the request options of the call!
      * @example await client.user.addEpisodes('id1', 'id2');
      */
-    async addEpisodes(...ids: string[]): Promise<boolean> {
+    async addEpisodes(...args: IDsWithOptions): Promise<boolean> {
+        const [ids, requestOptions] = splitRequestOptions(args);
+        if(requestOptions) return this.client.withOptions(requestOptions).user.addEpisodes(...ids);
 
         try{
-            await this.client.util.fetch('/me/episodes', {
+            await forEachChunk(ids, 50, chunk => this.fetch('/me/episodes', {
                 method: 'PUT',
                 params: {
-                    ids: ids.join(',')
+                    ids: chunk.join(',')
                 }
-            })
+            }), this.client.util.concurrency);
 
             return true;
         }catch(e){
-            return handleError(e) || false;
+            return handleError(e, this.client.requestOptions) || false;
         }
 
     }
@@ -730,22 +733,24 @@ export default class UserClient{
     /**
      * Remove episodes from your spotify savelist!
      * 
-     * @param ids Spotify episodes ids to remove from your save list!
+     * @param args Spotify episodes ids to remove from your save list, optionally followed by the request options of the call!
      * @example await client.user.deleteEpisodes('id1', 'id2');
      */
-    async deleteEpisodes(...ids: string[]): Promise<boolean> {
+    async deleteEpisodes(...args: IDsWithOptions): Promise<boolean> {
+        const [ids, requestOptions] = splitRequestOptions(args);
+        if(requestOptions) return this.client.withOptions(requestOptions).user.deleteEpisodes(...ids);
 
         try{
-            await this.client.util.fetch('/me/episodes', {
+            await forEachChunk(ids, 50, chunk => this.fetch('/me/episodes', {
                 method: 'DELETE',
                 params: {
-                    ids: ids.join(',')
+                    ids: chunk.join(',')
                 }
-            })
+            }), this.client.util.concurrency);
 
             return true;
         }catch(e){
-            return handleError(e) || false;
+            return handleError(e, this.client.requestOptions) || false;
         }
 
     }
@@ -753,19 +758,21 @@ export default class UserClient{
     /**
      * Check if those episodes exist on the current user's library!
      * 
-     * @param ids Array of spotify episode ids
+     * @param args Array of spotify episode ids, optionally followed by the request options of the call
      * @example const [hasFirstEpisode, hasSecondEpisode] = await client.user.hasEpisodes('id1', 'id2');
      */
-    async hasEpisodes(...ids: string[]): Promise<boolean[]> {
+    async hasEpisodes(...args: IDsWithOptions): Promise<boolean[]> {
+        const [ids, requestOptions] = splitRequestOptions(args);
+        if(requestOptions) return this.client.withOptions(requestOptions).user.hasEpisodes(...ids);
 
         try{
-            return await this.client.util.fetch('/me/episodes/contains', {
+            return await mapChunks(ids, 50, chunk => this.fetch('/me/episodes/contains', {
                 params: {
-                    ids: ids.join(',')
+                    ids: chunk.join(',')
                 }
-            })
+            }), this.client.util.concurrency);
         }catch(e){
-            return handleError(e) || [];
+            return handleError(e, this.client.requestOptions) || [];
         }
 
     }
@@ -774,29 +781,21 @@ export default class UserClient{
      * Returns the saved shows of the current user
      * 
      * @param options Basic PagingOptions
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example const shows = await client.user.getShows();
      */
-    async getShows(options?: PagingOptions): Promise<Paging<Saved<'show', Show>>> {
+    async getShows(options?: PagingOptions, requestOptions?: RequestOptions): Promise<Paging<Saved<'show', Show>>> {
+        if(requestOptions) return this.client.withOptions(requestOptions).user.getShows(options);
 
         try{
-            const data = await this.client.util.fetch('/me/shows', { params: options });
-
-            return {
-                limit: data.limit,
-                offset: data.offset,
-                total: data.total,
-                items: data.items.map(x => ({
-                    addedAt: x.added_at,
-                    show: new Show(x.show, this.client)
-                }))
-            }
+            const data = await this.fetch('/me/shows', { params: options });
+
+            return createPaging(data, this.client, x => ({
+                addedAt: x.added_at,
+                show: new Show(x.show, this.client)
+            }), undefined, { manager: 'UserClient' });
         }catch(e){
-            return handleError(e) || {
-                limit: 0,
-                offset: 0,
-                total: 0,
-                items: []
-            };
+            return handleError(e, this.client.requestOptions) || emptyPaging();
         }
 
     }
@@ -804,22 +803,24 @@ export default class UserClient{
     /**
      * Add shows to your spotify savelist!
      * 
-     * @param ids Spotify shows ids to add to your save list!
+     * @param args Spotify shows ids to add to your save list, optionally followed by the request options of the call!
      * @example await client.user.addShows('id1', 'id2');
      */
-    async addShows(...ids: string[]): Promise<boolean> {
+    async addShows(...args: IDsWithOptions): Promise<boolean> {
+        const [ids, requestOptions] = splitRequestOptions(args);
+        if(requestOptions) return this.client.withOptions(requestOptions).user.addShows(...ids);
 
         try{
-            await this.client.util.fetch('/me/shows', {
+            await forEachChunk(ids, 50, chunk => this.fetch('/me/shows', {
                 method: 'PUT',
                 params: {
-                    ids: ids.join(',')
+                    ids: chunk.join(',')
                 }
-            })
+            }), this.client.util.concurrency);
 
             return true;
         }catch(e){
-            return handleError(e) || false;
+            return handleError(e, this.client.requestOptions) || false;
         }
 
     }
@@ -827,22 +828,24 @@ export default class UserClient{
     /**
      * Remove shows from your spotify savelist!
      * 
-     * @param ids Spotify shows ids to remove from your save list!
+     * @param args Spotify shows ids to remove from your save list, optionally followed by the request options of the call!
      * @example await client.user.deleteShows('id1', 'id2');
      */
-    async deleteShows(...ids: string[]): Promise<boolean> {
+    async deleteShows(...args: IDsWithOptions): Promise<boolean> {
+        const [ids, requestOptions] = splitRequestOptions(args);
+        if(requestOptions) return this.client.withOptions(requestOptions).user.deleteShows(...ids);
 
         try{
-            await this.client.util.fetch('/me/shows', {
+            await forEachChunk(ids, 50, chunk => this.fetch('/me/shows', {
                 method: 'DELETE',
                 params: {
-                    ids: ids.join(',')
+                    ids: chunk.join(',')
                 }
-            })
+            }), this.client.util.concurrency);
 
             return true;
         }catch(e){
-            return handleError(e) || false;
+            return handleError(e, this.client.requestOptions) || false;
         }
 
     }
@@ -850,19 +853,21 @@ export default class UserClient{
     /**
      * Check if those shows exist on the current user's library!
      * 
-     * @param ids Array of spotify show ids
+     * @param args Array of spotify show ids, optionally followed by the request options of the call
      * @example const [hasFirstShow, hasSecondShow] = await client.user.hasShows('id1', 'id2');
      */
-    async hasShows(...ids: string[]): Promise<boolean[]> {
+    async hasShows(...args: IDsWithOptions): Promise<boolean[]> {
+        const [ids, requestOptions] = splitRequestOptions(args);
+        if(requestOptions) return this.client.withOptions(requestOptions).user.hasShows(...ids);
 
         try{
-            return await this.client.util.fetch('/me/shows/contains', {
+            return await mapChunks(ids, 50, chunk => this.fetch('/me/shows/contains', {
                 params: {
-                    ids: ids.join(',')
+                    ids: chunk.join(',')
                 }
-            })
+            }), this.client.util.concurrency);
         }catch(e){
-            return handleError(e) || [];
+            return handleError(e, this.client.requestOptions) || [];
         }
 
     }
@@ -1,6 +1,10 @@
-import axios, { AxiosResponse } from 'axios';
-import { Methods, SpotifyTypes, SpotifyURI } from './Types';
-import { UtilityError } from './Errors';
+import { IDsWithOptions, Methods, RequestOptions, SpotifyTypes, SpotifyURI } from './Types';
+import { AbortError, AuthenticationError, createError, TimeoutError, UtilityError } from './Errors';
+import RateLimiter, { RateLimiterOptions } from './utils/RateLimiter';
+import RetryPolicy, { RetryOptions } from './utils/RetryPolicy';
+import { AxiosTransport, send, Transport, TransportResponse } from './utils/Transport';
+import ResponseCache, { CachedResponse, ResponseCacheOptions } from './utils/ResponseCache';
+import { ClientEvents } from './Client';
 
 /**
  * Options required to use Util.fetch
@@ -10,8 +14,59 @@ export interface FetchOptions{
     method?: Methods;
     params?: { [key: string]: string };
     body?: { [key: string]: string | boolean | number | string[] };
+    manager?: string;
+    retry?: boolean;
 }
 
+/**
+ * The request passed through the middlewares. Middlewares can rewrite the url and the options!
+ */
+export interface MiddlewareRequest{
+    url: string;
+    options: FetchOptions;
+}
+
+/**
+ * A function which passes the request to the next middleware or to the network!
+ */
+export type MiddlewareNext = (request: MiddlewareRequest) => Promise<TransportResponse>;
+
+/**
+ * A middleware which can inspect or rewrite the request, resolve a response without calling next, observe the timing or transform the errors!
+ */
+export type Middleware = (request: MiddlewareRequest, next: MiddlewareNext) => Promise<TransportResponse>;
+
+/**
+ * Options to create the Util class!
+ */
+export interface UtilOptions{
+    rateLimit?: RateLimiterOptions;
+    retryPolicy?: RetryOptions;
+    refresher?: () => Promise<boolean>;
+    concurrency?: number;
+    transport?: Transport;
+    apiURL?: string;
+    dedupe?: boolean;
+    httpCache?: boolean | ResponseCacheOptions;
+    emit?: EmitFunction;
+    requestOptions?: RequestOptions;
+}
+
+/**
+ * A function which emits the events of the client!
+ */
+export type EmitFunction = <K extends keyof ClientEvents>(event: K, ...args: ClientEvents[K]) => boolean;
+
+/**
+ * Milliseconds before the expiry of the token when it will be refreshed!
+ */
+export const REFRESH_MARGIN = 60000;
+
+/**
+ * The url of the spotify api which is used in the next and previous urls of the paging objects!
+ */
+const SPOTIFY_API_URL = 'https://api.spotify.com';
+
 /**
  * The main utility and helper class for the package
  */
@@ -19,66 +74,336 @@ export default class Util{
 
     token: string;
     version: `v${number}`;
+    apiURL: string;
+    transport: Transport;
+    middlewares: Middleware[];
+    rateLimiter: RateLimiter;
+    retryPolicy: RetryPolicy;
+    expiresAt: number | null;
+    concurrency: number;
+    requestOptions: RequestOptions;
+    dedupe: boolean;
+    responseCache: ResponseCache | null;
+    refresher?: () => Promise<boolean>;
+    emit?: EmitFunction;
+
+    private refreshing: { pending?: Promise<boolean> };
+    private inflight: Map<string, Promise<TransportResponse>>;
 
     /**
      * Used for management
      * 
      * @param token Your spotify token
+     * @param options Options such as the rate limit options, the token refresher, the transport and the concurrency of the chunked requests
      * @example new Spotify.Util(token);
      */
-    constructor(token: string){
+    constructor(token: string, options: UtilOptions = {}){
         this.token = token;
         this.version = 'v1';
+        this.apiURL = (options.apiURL || SPOTIFY_API_URL).replace(/\/+$/, '');
+        this.transport = options.transport || new AxiosTransport();
+        this.middlewares = [];
+        this.rateLimiter = new RateLimiter(options.rateLimit);
+        this.retryPolicy = new RetryPolicy(options.retryPolicy);
+        this.expiresAt = null;
+        this.concurrency = options.concurrency || 4;
+        this.requestOptions = options.requestOptions || {};
+        this.dedupe = options.dedupe ?? true;
+        this.responseCache = options.httpCache ? new ResponseCache(typeof options.httpCache == 'object' ? options.httpCache : {}) : null;
+        this.inflight = new Map();
+        this.refreshing = {};
+        this.refresher = options.refresher;
+        this.emit = options.emit;
+    }
+
+    /**
+     * Returns true if the token has expired or is going to expire in a minute!
+     * @readonly
+     */
+    get tokenExpired(): boolean {
+        return this.expiresAt != null && Date.now() >= this.expiresAt - REFRESH_MARGIN;
     }
 
     /**
      * Used to fetch data from spotify!
      * 
-     * @param url The path from spotify api to fetch!
+     * @param url The path from spotify api or an absolute spotify api url like the next url of a paging object!
      * @param options The additional options required to fetch
      * @example await util.fetch('/users/id');
      */
     async fetch(url: string, options?: FetchOptions): Promise<any> {
-        
-        const { data } = await axios({
-            url: `https://api.spotify.com/${this.version}${url}`,
-            method: options?.method || 'GET',
-            params: options?.params,
-            headers: {
-                Authorization: "Bearer " + this.token,
-                Accept: 'application/json',
-                ...options?.headers
-            },
-            data: options?.body
-        })
+        return (await this.fetchWithResponse(url, options)).data;
+    }
+
+    /**
+     * Same to util.fetch but returns the whole response instead of just the body.
+     * Concurrent identical GET requests share a single request unless the dedupe option has been disabled!
+     * 
+     * @param url The path from spotify api to fetch!
+     * @param options The additional options required to fetch
+     * @example await util.fetchWithResponse('/users/id');
+     */
+    async fetchWithResponse(url: string, options: FetchOptions = {}): Promise<TransportResponse> {
+        return await this.runMiddlewares(url, options);
+    }
 
-        return data;
+    /**
+     * Passes the request through the middlewares and sends it!
+     * 
+     * @param url The path from spotify api to fetch!
+     * @param options The additional options required to fetch
+     */
+    private async runMiddlewares(url: string, options: FetchOptions): Promise<TransportResponse> {
+
+        const run = (index: number, request: MiddlewareRequest): Promise<TransportResponse> => {
+            const middleware = this.middlewares[index];
+            if(!middleware) return this.sendShared(request.url, request.options);
+            return middleware(request, next => run(index + 1, next));
+        };
+
+        return await run(0, { url, options });
 
     }
 
     /**
-     * Same to util.fetch but returns the whole response instead of just the body
+     * Sends the request after the middlewares. Identical GET requests which are sent at the same time share a single request.
+     * They are compared after the middlewares so that the headers added by the middlewares are part of the comparison!
      * 
      * @param url The path from spotify api to fetch!
      * @param options The additional options required to fetch
-     * @example await util.fetchWithResponse('/users/id');
      */
-    async fetchWithResponse(url: string, options?: FetchOptions): Promise<AxiosResponse> {
-        
-        return await axios({
-            url: `https://api.spotify.com/${this.version}${url}`,
+    private async sendShared(url: string, options: FetchOptions): Promise<TransportResponse> {
+
+        const key = this.dedupe ? this.inflightKey(url, options) : null;
+        if(!key) return await this.send(url, options);
+
+        let pending = this.inflight.get(key);
+
+        if(!pending){
+            pending = this.send(url, options).finally(() => this.inflight.delete(key));
+            this.inflight.set(key, pending);
+        }
+
+        return await pending;
+
+    }
+
+    /**
+     * Adds a middleware to the end of the chain. Middlewares run in the order they were added!
+     * 
+     * @param middleware The middleware to add
+     * @example util.use(async (req, next) => await next(req));
+     */
+    use(middleware: Middleware): this {
+        this.middlewares.push(middleware);
+        return this;
+    }
+
+    /**
+     * Sends the request after the middlewares. Refreshes the token when it has expired and retries once on 401!
+     * 
+     * @param url The path from spotify api to fetch!
+     * @param options The additional options required to fetch
+     */
+    private async send(url: string, options?: FetchOptions): Promise<TransportResponse> {
+
+        if(this.refresher && this.tokenExpired) await this.refresh();
+
+        try{
+            return await this.request(url, options);
+        }catch(e){
+            if(!(e instanceof AuthenticationError) || !this.refresher || !(await this.refresh())) throw e;
+            return await this.request(url, options);
+        }
+
+    }
+
+    /**
+     * Refreshes the token using the refresher. Concurrent calls will share the same refresh, even the ones of the clients returned by client.withOptions!
+     * Returns false if the token could not be refreshed!
+     * 
+     * @example await util.refresh();
+     */
+    async refresh(): Promise<boolean> {
+        if(!this.refresher) return false;
+
+        const refreshing = this.refreshing;
+        if(!refreshing.pending) refreshing.pending = this.refresher().finally(() => refreshing.pending = undefined);
+        return await refreshing.pending;
+    }
+
+    /**
+     * Sends the request through the rate limiter, emits the request events and converts the failures to spotify api errors!
+     * The request is cancelled when the signal of the request options is aborted or the timeout has elapsed.
+     * Fresh responses of the http response cache are returned without a request and the stale ones are revalidated!
+     * 
+     * @param url The path from spotify api to fetch!
+     * @param options The additional options required to fetch
+     */
+    private async request(url: string, options?: FetchOptions): Promise<TransportResponse> {
+
+        const event = {
             method: options?.method || 'GET',
-            params: options?.params,
-            headers: {
-                Authorization: "Bearer " + this.token,
-                Accept: 'application/json',
-                ...options?.headers
-            },
-            data: options?.body
-        })
+            url: this.resolveURL(url),
+            manager: options?.manager || null
+        };
+
+        const cacheKey = this.responseCache && event.method == 'GET' ? ResponseCache.key(event.url, options?.params) : null;
+        const cached = cacheKey ? this.responseCache?.get(cacheKey, this.token) || null : null;
+        if(cached && this.responseCache?.isFresh(cached)) return ResponseCache.copy(cached.response);
+
+        const { signal, timeout } = this.requestOptions;
+        const controller = signal || timeout ? new AbortController() : null;
+        let timedOut = false;
+
+        const abort = () => controller?.abort();
+        const aborted = controller ? new Promise<never>((resolve, reject) => controller.signal.addEventListener('abort', () => {
+            reject(timedOut ? new TimeoutError(timeout as number) : new AbortError());
+        })) : null;
+
+        const timer = controller && timeout ? setTimeout(() => {
+            timedOut = true;
+            abort();
+        }, timeout) : undefined;
+
+        signal?.addEventListener('abort', abort);
+
+        try{
+            if(signal?.aborted) throw new AbortError();
+
+            const pending = this.withRetries(event.method, controller?.signal, options?.retry, () => this.rateLimiter.schedule(async () => {
+                if(controller?.signal.aborted) throw new AbortError();
+
+                const start = Date.now();
+                this.emit?.('request', event);
+
+                try{
+                    const response = await send(this.transport, {
+                        url: event.url,
+                        method: event.method,
+                        params: options?.params,
+                        headers: {
+                            Authorization: "Bearer " + this.token,
+                            Accept: 'application/json',
+                            ...(cached ? this.responseCache?.conditionalHeaders(cached) : {}),
+                            ...options?.headers
+                        },
+                        body: options?.body,
+                        signal: controller?.signal
+                    });
+
+                    this.emit?.('response', { ...event, status: response.status, duration: Date.now() - start });
+                    return response;
+                }catch(e){
+                    const status = e?.response?.status;
+                    if(status) this.emit?.('response', { ...event, status, duration: Date.now() - start });
+                    if(status == 429) this.emit?.('rateLimited', { ...event, retryAfter: RateLimiter.parseRetryAfter(e.response.headers?.['retry-after']) });
+                    throw e;
+                }
+            }));
+
+            const response = await (aborted ? Promise.race([aborted, pending]) : pending);
+
+            return this.cacheResponse(event.method, event.url, cacheKey, cached, response);
+        }catch(e){
+            const error = createError(e);
+            this.emit?.('error', { ...event, error });
+            throw error;
+        }finally{
+            if(timer) clearTimeout(timer);
+            signal?.removeEventListener('abort', abort);
+        }
 
     }
 
+    /**
+     * Stores the response in the http response cache or returns the stored response on 304. Modifying requests invalidate the stored responses of the resource!
+     * 
+     * @param method The method of the request
+     * @param url The absolute url of the request
+     * @param key The key of the request in the http response cache
+     * @param cached The stored response which was revalidated
+     * @param response The response received
+     */
+    private cacheResponse(method: Methods, url: string, key: string | null, cached: CachedResponse | null, response: TransportResponse): TransportResponse {
+
+        if(!this.responseCache) return response;
+        if(method != 'GET'){
+            this.responseCache.invalidate(url);
+            return response;
+        }
+
+        if(response.status == 304 && cached) return this.responseCache.revalidate(cached, response);
+        if(key && response.status == 200) this.responseCache.set(key, url, response, this.token);
+        return response;
+
+    }
+
+    /**
+     * Runs the request and retries it according to the retry policy until it succeeds or the signal is aborted!
+     * The wait before the next attempt ends as soon as the signal is aborted.
+     * 
+     * @param method The method of the request
+     * @param signal The signal which cancels the request
+     * @param retry False if the request is not safe to retry
+     * @param request A function which performs the request
+     */
+    private async withRetries<T>(method: Methods, signal: AbortSignal | undefined, retry: boolean | undefined, request: () => Promise<T>): Promise<T> {
+
+        for(let attempt = 1; ; attempt++){
+            try{
+                return await request();
+            }catch(e){
+                if(signal?.aborted || !this.retryPolicy.shouldRetry(method, e, attempt, retry === false ? false : this.requestOptions.retry)) throw e;
+
+                await new Promise<void>((resolve, reject) => {
+                    const abort = () => {
+                        clearTimeout(timer);
+                        reject(new AbortError());
+                    };
+
+                    const timer = setTimeout(() => {
+                        signal?.removeEventListener('abort', abort);
+                        resolve();
+                    }, this.retryPolicy.delay(attempt, e));
+
+                    signal?.addEventListener('abort', abort);
+                });
+            }
+        }
+
+    }
+
+    /**
+     * Returns the key which identifies identical GET requests or null if the request should not be shared!
+     * Requests with an abort signal are never shared as aborting one of them would abort all of them and the requests with another timeout or retry option are not identical.
+     * 
+     * @param url The path from spotify api to fetch!
+     * @param options The additional options required to fetch
+     */
+    private inflightKey(url: string, options: FetchOptions): string | null {
+        if((options.method || 'GET') != 'GET' || options.body || this.requestOptions.signal) return null;
+
+        const params = options.params || {};
+        const sortedParams = Object.keys(params).sort().map(x => [x, params[x]]);
+        const headers = options.headers || {};
+        const sortedHeaders = Object.keys(headers).sort().map(x => [x.toLowerCase(), headers[x]]);
+        return JSON.stringify([this.token, this.resolveURL(url), sortedParams, sortedHeaders, this.requestOptions.timeout ?? null, options.retry ?? this.requestOptions.retry ?? null]);
+    }
+
+    /**
+     * Returns the absolute url of a spotify api path. Absolute urls are allowed only if they belong to the spotify api!
+     * The urls of the spotify api are sent to the api url of the client such as the next urls of the paging objects when a proxy is used.
+     * 
+     * @param url The path from spotify api or an absolute spotify api url
+     */
+    private resolveURL(url: string): string {
+        if(!/^[a-z]+:\/\//i.test(url)) return `${this.apiURL}/${this.version}${url}`;
+        if(url.startsWith(`${this.apiURL}/`)) return url;
+        if(url.startsWith(`${SPOTIFY_API_URL}/`)) return `${this.apiURL}${url.slice(SPOTIFY_API_URL.length)}`;
+        throw new UtilityError(`Only spotify api urls can be fetched, received: ${url}`);
+    }
+
     /**
      * Function used to convert the hex string to rgb array.
      * This is used in makeCodeImage functions!
@@ -113,6 +438,17 @@ export default class Util{
     
 }
 
+/**
+ * Splits the ids passed to a method from the request options which can follow them!
+ * 
+ * @param args The ids optionally followed by the request options
+ * @example const [ids, requestOptions] = splitRequestOptions(args);
+ */
+export function splitRequestOptions(args: IDsWithOptions): [string[], RequestOptions | undefined] {
+    const last = args[args.length - 1];
+    return last && typeof last == 'object' ? [args.slice(0, -1) as string[], last] : [args as string[], undefined];
+}
+
 /**
  * Structure returned by resolveURI method!
  */
@@ -1,5 +1,5 @@
-import Client from './Client';
-import AuthManager, { GetUserTokenOptions } from './managers/AuthManager';
+import Client, { ClientOptions } from './Client';
+import { GetUserTokenOptions } from './managers/AuthManager';
 import UserClient from './UserClient';
 import Util from './Util';
 
@@ -8,14 +8,62 @@ export const version = '8.0.0';
 export {
     default as Util,
     FetchOptions,
+    UtilOptions,
+    Middleware,
+    MiddlewareRequest,
+    MiddlewareNext,
+    EmitFunction,
     resolveURI,
     URIData
 } from './Util';
 
-export { default as Client, ClientOptions } from './Client';
+export {
+    default as Client,
+    ClientOptions,
+    ClientCredentials,
+    ClientEvents,
+    RequestEvent,
+    ResponseEvent,
+    RateLimitedEvent,
+    RequestErrorEvent,
+    TokenRefreshedEvent,
+    CacheEvent
+} from './Client';
 export { default as Collection } from './utils/Collection';
+export { default as CacheCollection, CacheCollectionOptions } from './utils/CacheCollection';
+export { default as ClientCache, CacheName, CacheSnapshot, CacheCollectionsOptions } from './utils/ClientCache';
+export { default as RateLimiter, RateLimiterOptions } from './utils/RateLimiter';
+export { default as RetryPolicy, RetryOptions } from './utils/RetryPolicy';
+export { default as Batcher, BatcherOptions, BatchFetcher } from './utils/Batcher';
+export { default as ResponseCache, ResponseCacheOptions, CachedResponse } from './utils/ResponseCache';
+export { createUserWithLocalServer, LocalServerOptions } from './utils/LocalAuthServer';
+export { TokenStore, StoredToken, MemoryTokenStore, FileTokenStore } from './utils/TokenStore';
+export { CacheAdapter, MemoryCacheAdapter, FileCacheAdapter } from './utils/CacheAdapter';
+export { Transport, TransportRequest, TransportResponse, AxiosTransport, FetchTransport } from './utils/Transport';
+export { MockTransport, MockResponse, MockHandler, MockRoute } from './utils/MockTransport';
+export {
+    default as Paginator,
+    paginate,
+    PageFetcher,
+    PaginatorOptions,
+    CursorPaginator,
+    paginateCursor,
+    CursorPageFetcher,
+    CursorPaginatorOptions,
+    CollectOptions
+} from './utils/Paginator';
 
-export { default as AuthManager, GetUserTokenOptions, AuthRefresh } from './managers/AuthManager';
+export {
+    default as AuthManager,
+    AuthManagerOptions,
+    GetUserTokenOptions,
+    AuthRefresh,
+    ApiToken,
+    AuthorizationURL,
+    AuthorizationURLOptions,
+    PKCEAuthorizationURL,
+    PKCEAuthorizationURLOptions
+} from './managers/AuthManager';
 export { default as BaseManager } from './managers/BaseManager';
 export { default as UserManager } from './managers/UserManager';
 export { default as PlaylistManager, ReorderOptions } from './managers/PlaylistManager';
@@ -38,7 +86,8 @@ export {
     CurrentlyPlayingType,
     PlayHistory,
     PlayHistoryType,
-    RecentlyPlayedType
+    RecentlyPlayedType,
+    RecentlyPlayedOptions
 } from './managers/PlayerManager';
 
 export { default as SearchManager, Search, SearchMethod } from './managers/SearchManager';
@@ -60,19 +109,17 @@ export * from './UserClient';
  * Remember that this method cache user's private info before returning the user client
  * 
  * @param token A valid spotify current user authorized token or get user token options
+ * @param options Client options such as the token store to save the token
  * @example const user = await Spotify.createUser('token');
  */
-export async function createUser(token: string | GetUserTokenOptions): Promise<UserClient> {
+export async function createUser(token: string | GetUserTokenOptions, options: ClientOptions = {}): Promise<UserClient> {
     if(typeof token == 'object'){
-        const user = new UserClient(
-            (await (new AuthManager('NO TOKEN'))
-            .getUserToken(token)).accessToken
-        )
-
-        return await user.info();
+        const client = new Client('NO TOKEN', options);
+        await client.login(token);
+        return await client.user.info();
     }
 
-    const user = new UserClient(token);
+    const user = new Client(token, options).user;
     return await user.info();
 }
 
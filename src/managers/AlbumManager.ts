@@ -1,22 +1,41 @@
+import Client from '../Client';
 import Album from '../structures/Album';
-import { handleError, UnexpectedError } from '../Errors';
+import { handleError } from '../Errors';
+import Batcher, { createBatcher } from '../utils/Batcher';
+import { mapChunks } from '../utils/Chunks';
+import { createPaging, emptyPaging } from '../utils/Paging';
 import BaseManager from './BaseManager';
 import Track from '../structures/Track';
-import { GetMultipleOptions, Paging, PagingOptions, SearchOptions } from '../Types';
+import { GetMultipleOptions, Paging, PagingOptions, RequestOptions, SearchOptions } from '../Types';
 
 /**
  * Manages all the spotify album api endpoints
  */
 export default class AlbumManager extends BaseManager{
 
+    readonly batcher!: Batcher<Album> | null;
+
+    /**
+     * A class which manages the albums api!
+     * 
+     * @param client Your spotify client
+     * @example const albums = new AlbumManager(client);
+     */
+    constructor(client: Client){
+        super(client);
+        Object.defineProperty(this, 'batcher', { value: createBatcher(client, 20, (ids, market) => this.getMultiple({ ids, market })) });
+    }
+
     /**
      * Search albums!
      * 
      * @param query Your query to search
      * @param options Basic SearchOptions but no `type` field should be provided!
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example await client.albums.search('some query');
      */
-    async search(query: string, options?: Omit<SearchOptions, 'type'>): Promise<Paging<Album>> {
+    async search(query: string, options?: Omit<SearchOptions, 'type'>, requestOptions?: RequestOptions): Promise<Paging<Album>> {
+        if(requestOptions) return this.client.withOptions(requestOptions).albums.search(query, options);
 
         try{
             const data = (await this.fetch('/search', {
@@ -27,25 +46,9 @@ export default class AlbumManager extends BaseManager{
                 }
             })).albums;
 
-            const albums = data.items.map(x => new Album(x, this.client));
-
-            if(this.client.cacheOptions.cacheAlbums){
-                for(let i = 0; i < albums.length; i++) this.client.cache.albums.set(albums[i].id, albums[i]);
-            }
-
-            return {
-                limit: data.limit,
-                offset: data.offset,
-                total: data.total,
-                items: albums
-            };
+            return createPaging(data, this.client, x => new Album(x, this.client), 'albums', this.pagingHooks('albums', 'cacheAlbums'));
         }catch(e){
-            return handleError(e) || {
-                limit: 0,
-                offset: 0,
-                total: 0,
-                items: []
-            };
+            return handleError(e, this.client.requestOptions) || emptyPaging();
         }
 
     }
@@ -56,56 +59,59 @@ export default class AlbumManager extends BaseManager{
      * @param id The spotify id of the album
      * @param force If true, will directly fetch else will search for cache first!
      * @param market The market where the data needs to be fetched from
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example await client.albums.get('id');
      */
-    async get(id: string, force: boolean = !this.client.cacheOptions.cacheAlbums, market: string = 'US'): Promise<Album | null> {
+    async get(id: string, force: boolean = !this.client.cacheOptions.cacheAlbums, market: string = 'US', requestOptions?: RequestOptions): Promise<Album | null> {
+        if(requestOptions) return this.client.withOptions(requestOptions).albums.get(id, force, market);
 
         try{
             if(!force){
-                let existing = this.client.cache.albums.get(id);
+                let existing = await this.getCached('albums', id, x => new Album(x, this.client));
                 if(existing) return existing;
             }
 
+            if(this.batcher) return await this.loadBatched(this.batcher, `/albums/${id}`, id, market);
+
             const album = new Album(await this.fetch(`/albums/${id}`, {
                 params: { market }
             }), this.client);
 
-            if(this.client.cacheOptions.cacheAlbums) this.client.cache.albums.set(album.id, album);
+            if(this.client.cacheOptions.cacheAlbums) this.setCached('albums', album);
             return album;
         }catch(e){
-            return handleError(e);
+            return handleError(e, this.client.requestOptions);
         }
 
     }
 
     /**
-     * Get multiple albums at one fetch!
+     * Get multiple albums! Any number of ids can be provided as they are fetched in chunks of 20.
+     * The albums which were not found are returned as null!
      * 
      * @param options Basic GetMultipleOptions
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example await client.albums.getMultiple({
      *     ids: ['123456789']
      * })
      */
-    async getMultiple(options: GetMultipleOptions): Promise<Album[]> {
+    async getMultiple(options: GetMultipleOptions, requestOptions?: RequestOptions): Promise<(Album | null)[]> {
+        if(requestOptions) return this.client.withOptions(requestOptions).albums.getMultiple(options);
 
         try{
-            const def = { market: 'US', ids: [] as any };
-            Object.assign(def, options);
-
-            if(!def.ids.length  || def.ids.length > 20) throw new UnexpectedError("You must provide more than 1 and less than 20 ids to fetch multiple albums!");
-            def.ids = def.ids.join(',');
+            const market = options.market || 'US';
 
-            const albums = (await this.fetch('/albums', { 
-                params: def
-            })).albums.map(x => new Album(x, this.client));
+            const albums = await mapChunks(options.ids, 20, async chunk => (await this.fetch('/albums', {
+                params: { market, ids: chunk.join(',') }
+            })).albums.map(x => x ? new Album(x, this.client) : null) as (Album | null)[], this.client.util.concurrency);
 
             if(this.client.cacheOptions.cacheAlbums){
-                for(let i = 0; i < albums.length; i++) this.client.cache.albums.set(albums[i].id, albums[i]);
+                for(const album of albums) if(album) this.setCached('albums', album);
             }
 
             return albums;
         }catch(e){
-            return handleError(e) || [];
+            return handleError(e, this.client.requestOptions) || [];
         }
 
     }
@@ -115,31 +121,17 @@ export default class AlbumManager extends BaseManager{
      * 
      * @param id Id of the spotify album
      * @param options Basic PagingOptions
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example await client.albums.getTracks('id');
      */
-    async getTracks(id: string, options: PagingOptions = { market: 'US' }): Promise<Paging<Track>> {
+    async getTracks(id: string, options: PagingOptions = { market: 'US' }, requestOptions?: RequestOptions): Promise<Paging<Track>> {
+        if(requestOptions) return this.client.withOptions(requestOptions).albums.getTracks(id, options);
 
         try{
             const data = (await this.fetch(`/albums/${id}/tracks`, { params: options }));
-            const tracks = data.items.map(x => new Track(x, this.client));
-
-            if(this.client.cacheOptions.cacheTracks){
-                for(let i = 0; i < tracks.length; i++) this.client.cache.tracks.set(tracks[i].id, tracks[i]);
-            }
-
-            return {
-                limit: data.limit,
-                offset: data.offset,
-                total: data.total,
-                items: tracks
-            };
+            return createPaging(data, this.client, x => new Track(x, this.client), undefined, this.pagingHooks('tracks', 'cacheTracks'));
         }catch(e){
-            return handleError(e) || {
-                limit: 0,
-                offset: 0,
-                total: 0,
-                items: []
-            };
+            return handleError(e, this.client.requestOptions) || emptyPaging();
         }
 
     }
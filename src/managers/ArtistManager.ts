@@ -1,7 +1,12 @@
+import Client from '../Client';
 import Artist from '../structures/Artist';
-import { handleError, UnexpectedError } from '../Errors';
+import { handleError } from '../Errors';
+import Batcher, { createBatcher } from '../utils/Batcher';
+import { mapChunks } from '../utils/Chunks';
+import { createPaging, emptyPaging } from '../utils/Paging';
 import BaseManager from './BaseManager';
-import { GetMultipleOptions, Paging, PagingOptions, RawObject, SearchOptions } from '../Types';
+import { GetMultipleOptions, IDsWithOptions, Paging, PagingOptions, RawObject, RequestOptions, SearchOptions } from '../Types';
+import { splitRequestOptions } from '../Util';
 import Album from '../structures/Album';
 import Track from '../structures/Track';
 
@@ -10,14 +15,29 @@ import Track from '../structures/Track';
  */
 export default class ArtistManager extends BaseManager{
 
+    readonly batcher!: Batcher<Artist> | null;
+
+    /**
+     * A class which manages the artists api!
+     * 
+     * @param client Your spotify client
+     * @example const artists = new ArtistManager(client);
+     */
+    constructor(client: Client){
+        super(client);
+        Object.defineProperty(this, 'batcher', { value: createBatcher(client, 50, (ids, market) => this.getMultiple({ ids, market })) });
+    }
+
     /**
      * Search artists
      * 
      * @param query Your query to search
      * @param options Basic SearchOptions but no `type` field should be provided!
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example await client.artists.search('some query');
      */
-    async search(query: string, options?: Omit<SearchOptions, 'type'>): Promise<Paging<Artist>> {
+    async search(query: string, options?: Omit<SearchOptions, 'type'>, requestOptions?: RequestOptions): Promise<Paging<Artist>> {
+        if(requestOptions) return this.client.withOptions(requestOptions).artists.search(query, options);
 
         try{
             const data = (await this.fetch('/search', {
@@ -28,25 +48,9 @@ export default class ArtistManager extends BaseManager{
                 }
             })).artists;
             
-            const artists = data.items.map(x => new Artist(x, this.client));
-
-            if(this.client.cacheOptions.cacheArtists){
-                for(let i = 0; i < artists.length; i++) this.client.cache.artists.set(artists[i].id, artists[i]);
-            }
-
-            return {
-                limit: data.limit,
-                offset: data.offset,
-                total: data.total,
-                items: artists
-            };
+            return createPaging(data, this.client, x => new Artist(x, this.client), 'artists', this.pagingHooks('artists', 'cacheArtists'));
         }catch(e){
-            return handleError(e) || {
-                limit: 0,
-                offset: 0,
-                total: 0,
-                items: []
-            };
+            return handleError(e, this.client.requestOptions) || emptyPaging();
         }
 
     }
@@ -56,55 +60,58 @@ export default class ArtistManager extends BaseManager{
      * 
      * @param id Spotify artist id
      * @param force If true, will directly fetch else will search for cache first!
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example await client.artists.get('id');
      */
-    async get(id: string, force: boolean = !this.client.cacheOptions.cacheArtists, market: string = 'US'): Promise<Artist | null> {
+    async get(id: string, force: boolean = !this.client.cacheOptions.cacheArtists, market: string = 'US', requestOptions?: RequestOptions): Promise<Artist | null> {
+        if(requestOptions) return this.client.withOptions(requestOptions).artists.get(id, force, market);
 
         try{
             if(!force){
-                let exisiting = this.client.cache.artists.get(id);
+                let exisiting = await this.getCached('artists', id, x => new Artist(x, this.client));
                 if(exisiting) return exisiting;
             }
 
+            if(this.batcher) return await this.loadBatched(this.batcher, `/artists/${id}`, id, market);
+
             const artist = new Artist(await this.fetch(`/artists/${id}`, {
                 params: { market }
             }), this.client);
-            if(this.client.cacheOptions.cacheArtists) this.client.cache.artists.set(artist.id, artist);
+            if(this.client.cacheOptions.cacheArtists) this.setCached('artists', artist);
             return artist;
         }catch(e){
-            return handleError(e);
+            return handleError(e, this.client.requestOptions);
         }
 
     }
 
     /**
-     * Get multiple artists at one fetch!
+     * Get multiple artists! Any number of ids can be provided as they are fetched in chunks of 50.
+     * The artists which were not found are returned as null!
      * 
      * @param options Basic GetMultipleOptions
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example await client.artists.getMultiple({
      *     ids: ['123456789']
      * })
      */
-    async getMultiple(options: GetMultipleOptions): Promise<Artist[]> {
+    async getMultiple(options: GetMultipleOptions, requestOptions?: RequestOptions): Promise<(Artist | null)[]> {
+        if(requestOptions) return this.client.withOptions(requestOptions).artists.getMultiple(options);
 
         try{
-            const def = { market: 'US', ids: [] as any };
-            Object.assign(def, options);
-
-            if(!def.ids.length  || def.ids.length > 20) throw new UnexpectedError("You must provide more than 1 and less than 20 ids to fetch multiple artists!");
-            def.ids = def.ids.join(',');
+            const market = options.market || 'US';
 
-            const artists = (await this.fetch('/artists', { 
-                params: def
-            })).artists.map(x => new Artist(x, this.client));
+            const artists = await mapChunks(options.ids, 50, async chunk => (await this.fetch('/artists', {
+                params: { market, ids: chunk.join(',') }
+            })).artists.map(x => x ? new Artist(x, this.client) : null) as (Artist | null)[], this.client.util.concurrency);
 
             if(this.client.cacheOptions.cacheArtists){
-                for(let i = 0; i < artists.length; i++) this.client.cache.artists.set(artists[i].id, artists[i]);
+                for(const artist of artists) if(artist) this.setCached('artists', artist);
             }
 
             return artists;
         }catch(e){
-            return handleError(e) || [];
+            return handleError(e, this.client.requestOptions) || [];
         }
 
     }
@@ -114,31 +121,17 @@ export default class ArtistManager extends BaseManager{
      * 
      * @param id ID of the artist
      * @param options Basic PagingOptions
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example await client.artists.getAlbums('id');
      */
-    async getAlbums(id: string, options: PagingOptions = { market: 'US' }): Promise<Paging<Album>> {
+    async getAlbums(id: string, options: PagingOptions = { market: 'US' }, requestOptions?: RequestOptions): Promise<Paging<Album>> {
+        if(requestOptions) return this.client.withOptions(requestOptions).artists.getAlbums(id, options);
 
         try{
             const data = (await this.fetch(`/artists/${id}/albums`, { params: options as RawObject }));
-            const albums = data.items.map(x => new Album(x, this.client));
-
-            if(this.client.cacheOptions.cacheAlbums){
-                for(let i = 0; i < albums.length; i++) this.client.cache.albums.set(albums[i].id, albums[i]);
-            }
-
-            return {
-                limit: data.limit,
-                offset: data.offset,
-                total: data.total,
-                items: albums
-            };
+            return createPaging(data, this.client, x => new Album(x, this.client), undefined, this.pagingHooks('albums', 'cacheAlbums'));
         }catch(e){
-            return handleError(e) || {
-                limit: 0,
-                offset: 0,
-                total: 0,
-                items: []
-            };
+            return handleError(e, this.client.requestOptions) || emptyPaging();
         }
 
     }
@@ -148,9 +141,11 @@ export default class ArtistManager extends BaseManager{
      * 
      * @param id ID of the artist
      * @param options Basic PagingOptions
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example await client.albums.getTopTracks('id');
      */
-     async getTopTracks(id: string, options: PagingOptions = { market: 'US' }): Promise<Track[]> {
+     async getTopTracks(id: string, options: PagingOptions = { market: 'US' }, requestOptions?: RequestOptions): Promise<Track[]> {
+        if(requestOptions) return this.client.withOptions(requestOptions).artists.getTopTracks(id, options);
 
         try{
             const tracks = (await this.fetch(`/artists/${id}/top-tracks`, {
@@ -158,12 +153,12 @@ export default class ArtistManager extends BaseManager{
             })).tracks.map(x => new Track(x, this.client));
 
             if(this.client.cacheOptions.cacheTracks){
-                for(let i = 0; i < tracks.length; i++) this.client.cache.tracks.set(tracks[i].id, tracks[i]);
+                for(let i = 0; i < tracks.length; i++) this.setCached('tracks', tracks[i]);
             }
 
             return tracks;
         }catch(e){
-            return handleError(e) || [];
+            return handleError(e, this.client.requestOptions) || [];
         }
 
     }
@@ -173,9 +168,11 @@ export default class ArtistManager extends BaseManager{
      * 
      * @param id ID of the artist
      * @param options Basic PagingOptions
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example await client.albums.getRelatedArtists('id');
      */
-    async getRelatedArtists(id: string, options: PagingOptions = { market: 'US' }): Promise<Artist[]> {
+    async getRelatedArtists(id: string, options: PagingOptions = { market: 'US' }, requestOptions?: RequestOptions): Promise<Artist[]> {
+        if(requestOptions) return this.client.withOptions(requestOptions).artists.getRelatedArtists(id, options);
 
         try{
             const artists = (await this.fetch(`/artists/${id}/related-artists`, {
@@ -183,12 +180,12 @@ export default class ArtistManager extends BaseManager{
             })).artists.map(x => new Artist(x, this.client));
 
             if(this.client.cacheOptions.cacheArtists){
-                for(let i = 0; i < artists.length; i++) this.client.cache.artists.set(artists[i].id, artists[i]);
+                for(let i = 0; i < artists.length; i++) this.setCached('artists', artists[i]);
             }
 
             return artists;
         }catch(e){
-            return handleError(e) || [];
+            return handleError(e, this.client.requestOptions) || [];
         }
 
     }
@@ -196,30 +193,39 @@ export default class ArtistManager extends BaseManager{
     /**
      * Follow one or many artists!
      * 
-     * @param ids ID of the spotify artists
+     * @param args ID of the spotify artists, optionally followed by the request options of the call
      * @example await client.artists.follow('id', 'id2');
      */
-    async follow(...ids: string[]): Promise<boolean> {
+    async follow(...args: IDsWithOptions): Promise<boolean> {
+        const [ids, requestOptions] = splitRequestOptions(args);
+        if(requestOptions) return this.client.withOptions(requestOptions).artists.follow(...ids);
+
         return await this.client.user.followArtists(...ids);
     }
 
     /**
      * Unfollow one or many artists!
      * 
-     * @param ids ID of the spotify artists
+     * @param args ID of the spotify artists, optionally followed by the request options of the call
      * @example await client.artists.unfollow('id', 'id2');
      */
-    async unfollow(...ids: string[]): Promise<boolean> {
+    async unfollow(...args: IDsWithOptions): Promise<boolean> {
+        const [ids, requestOptions] = splitRequestOptions(args);
+        if(requestOptions) return this.client.withOptions(requestOptions).artists.unfollow(...ids);
+
         return await this.client.user.unfollowArtists(...ids);
     }
 
     /**
      * Verify if the current user follows one or many artists
      * 
-     * @param ids ID of the spotify artists
+     * @param args ID of the spotify artists, optionally followed by the request options of the call
      * @example const [followsFirstArtist, followsSecondArtist] = await client.artists.follows('id1', 'id2');
      */
-    async follows(...ids: string[]): Promise<boolean[]> {
+    async follows(...args: IDsWithOptions): Promise<boolean[]> {
+        const [ids, requestOptions] = splitRequestOptions(args);
+        if(requestOptions) return this.client.withOptions(requestOptions).artists.follows(...ids);
+
         return await this.client.user.followsArtists(...ids);
     }
 
@@ -1,15 +1,18 @@
-import axios from "axios";
-import { UnexpectedError } from "../Errors";
+import { createHash, randomBytes } from "crypto";
+import { createError } from "../Errors";
+import { Scope } from "../Types";
+import { AxiosTransport, send, Transport } from "../utils/Transport";
 
 /**
  * Options required for auth.getUserToken!
  */
 export interface GetUserTokenOptions{
     clientID: string;
-    clientSecret: string;
+    clientSecret?: string;
     redirectURL: string;
     code?: string;
     refreshToken?: string;
+    codeVerifier?: string;
 }
 
 /**
@@ -23,21 +26,176 @@ export interface AuthRefresh{
     scope: string;
 }
 
+/**
+ * Response sent by auth.getApiTokenDetails!
+ */
+export interface ApiToken{
+    accessToken: string;
+    tokenType: string;
+    expiresIn: number;
+}
+
+/**
+ * Options required for auth.getAuthorizationURL!
+ */
+export interface AuthorizationURLOptions{
+    clientID: string;
+    redirectURL: string;
+    scopes?: Scope[];
+    showDialog?: boolean;
+    state?: string;
+    codeChallenge?: string;
+}
+
+/**
+ * Response sent by auth.getAuthorizationURL!
+ */
+export interface AuthorizationURL{
+    url: string;
+    state: string;
+}
+
+/**
+ * Options required for auth.getPKCEAuthorizationURL!
+ */
+export interface PKCEAuthorizationURLOptions extends Omit<AuthorizationURLOptions, 'codeChallenge'>{
+    codeVerifier?: string;
+}
+
+/**
+ * Response sent by auth.getPKCEAuthorizationURL!
+ */
+export interface PKCEAuthorizationURL extends AuthorizationURL{
+    codeVerifier: string;
+}
+
+/**
+ * Options to create the AuthManager!
+ */
+export interface AuthManagerOptions{
+    transport?: Transport;
+    accountsURL?: string;
+}
+
 /**
  * Managing auth based api's of spotify!
  */
 export default class AuthManager{
 
     token: string;
+    accountsURL: string;
+    transport: Transport;
+    readonly states!: Set<string>;
 
     /**
      * Managing auth based api's of spotify!
      * 
      * @param token Your spotify oauth token
+     * @param options Options such as the transport and the accounts url
      * @example new Spotify.Auth();
      */
-    constructor(token: string = 'NO TOKEN'){
+    constructor(token: string = 'NO TOKEN', options: AuthManagerOptions = {}){
         this.token = token;
+        this.accountsURL = (options.accountsURL || 'https://accounts.spotify.com').replace(/\/+$/, '');
+        this.transport = options.transport || new AxiosTransport();
+        Object.defineProperty(this, 'states', { value: new Set() });
+    }
+
+    /**
+     * Returns the url of spotify where the user has to authorize your app and the state used to verify the redirect!
+     * 
+     * @param options Options required to build the authorization url!
+     * @example const { url, state } = auth.getAuthorizationURL({
+     *    clientID: 'id',
+     *    redirectURL: 'url',
+     *    scopes: ['user-read-private', 'playlist-modify-private'],
+     *    showDialog: true
+     * })
+     */
+    getAuthorizationURL(options: AuthorizationURLOptions): AuthorizationURL {
+        const state = options.state || AuthManager.generateState();
+        this.states.add(state);
+
+        const params = new URLSearchParams({
+            client_id: options.clientID,
+            response_type: 'code',
+            redirect_uri: options.redirectURL,
+            state
+        });
+
+        if(options.scopes && options.scopes.length) params.set('scope', options.scopes.join(' '));
+        if(typeof options.showDialog == 'boolean') params.set('show_dialog', String(options.showDialog));
+
+        if(options.codeChallenge){
+            params.set('code_challenge_method', 'S256');
+            params.set('code_challenge', options.codeChallenge);
+        }
+
+        return {
+            url: `${this.accountsURL}/authorize?${params}`,
+            state
+        };
+    }
+
+    /**
+     * Same as auth.getAuthorizationURL but uses the PKCE flow which does not require the client secret.
+     * Keep the returned code verifier to get the user token!
+     * 
+     * @param options Options required to build the authorization url!
+     * @example const { url, state, codeVerifier } = auth.getPKCEAuthorizationURL({
+     *    clientID: 'id',
+     *    redirectURL: 'url',
+     *    scopes: ['user-read-private']
+     * })
+     */
+    getPKCEAuthorizationURL(options: PKCEAuthorizationURLOptions): PKCEAuthorizationURL {
+        const codeVerifier = options.codeVerifier || AuthManager.generateCodeVerifier();
+
+        return {
+            ...this.getAuthorizationURL({
+                ...options,
+                codeChallenge: AuthManager.generateCodeChallenge(codeVerifier)
+            }),
+            codeVerifier
+        };
+    }
+
+    /**
+     * Verifies the state received on the redirect url. A state can only be verified once!
+     * 
+     * @param state The state query received on the redirect url
+     * @example if(!auth.verifyState(req.query.state)) throw new Error('Invalid state!');
+     */
+    verifyState(state?: string | null): boolean {
+        if(!state || !this.states.has(state)) return false;
+        this.states.delete(state);
+        return true;
+    }
+
+    /**
+     * Generates a random state to prevent cross site request forgery!
+     * @example const state = AuthManager.generateState();
+     */
+    static generateState(): string {
+        return randomBytes(16).toString('hex');
+    }
+
+    /**
+     * Generates a random code verifier for the PKCE flow!
+     * @example const codeVerifier = AuthManager.generateCodeVerifier();
+     */
+    static generateCodeVerifier(): string {
+        return toBase64URL(randomBytes(64).toString('base64'));
+    }
+
+    /**
+     * Generates the S256 code challenge of the code verifier for the PKCE flow!
+     * 
+     * @param codeVerifier The code verifier
+     * @example const codeChallenge = AuthManager.generateCodeChallenge(codeVerifier);
+     */
+    static generateCodeChallenge(codeVerifier: string): string {
+        return toBase64URL(createHash('sha256').update(codeVerifier).digest('base64'));
     }
 
     /**
@@ -48,10 +206,21 @@ export default class AuthManager{
      * @example await auth.getApiToken('id', 'secert');
      */
     async getApiToken(clientID: string, clientSecret: string): Promise<string> {
+        return (await this.getApiTokenDetails(clientID, clientSecret)).accessToken;
+    }
+
+    /**
+     * Returns an api token along with its type and expiry from your client id and client secret!
+     * 
+     * @param clientID Your spotify app's client id
+     * @param clientSecret Your spotify app's client secret
+     * @example const { accessToken, expiresIn } = await auth.getApiTokenDetails('id', 'secert');
+     */
+    async getApiTokenDetails(clientID: string, clientSecret: string): Promise<ApiToken> {
         try{
-            const { data } = await axios({
+            const { data } = await send(this.transport, {
                 method: 'POST',
-                url: 'https://accounts.spotify.com/api/token',
+                url: `${this.accountsURL}/api/token`,
                 params: {
                     grant_type: 'client_credentials',
                     token: this.token,
@@ -61,11 +230,15 @@ export default class AuthManager{
                 headers: {
                     "Content-Type": "application/x-www-form-urlencoded",
                 }
-            })
+            });
 
-            return data.access_token;
+            return {
+                accessToken: data.access_token,
+                tokenType: data.token_type,
+                expiresIn: data.expires_in
+            };
         }catch(e){
-            throw new UnexpectedError(e);
+            throw createError(e);
         }
     }
 
@@ -78,7 +251,8 @@ export default class AuthManager{
      *    clientSecret: 'secret',
      *    code: 'code', // If attempting to get user token through authorization
      *    refreshToken: 'token', // If attempting to refresh token!
-     *    redirectURL: 'url' // Needs to be the same what you have enetered while authorizing the token!
+     *    redirectURL: 'url', // Needs to be the same what you have enetered while authorizing the token!
+     *    codeVerifier: 'verifier' // If using the PKCE flow, then the client secret is not required!
      * })
      */
     async getUserToken(options: GetUserTokenOptions): Promise<AuthRefresh> {
@@ -87,16 +261,21 @@ export default class AuthManager{
                 ? "refresh_token"
                 : "authorization_code";
 
-            const { data } = await axios({
-                method: "post",
-                url: "https://accounts.spotify.com/api/token",
+            const pkce = !options.clientSecret;
+            const { data } = await send(this.transport, {
+                method: "POST",
+                url: `${this.accountsURL}/api/token`,
                 params: {
                     grant_type,
                     code: options.code,
                     refresh_token: options.refreshToken,
                     redirect_uri: options.redirectURL,
+                    client_id: pkce ? options.clientID : undefined,
+                    code_verifier: options.code ? options.codeVerifier : undefined
                 },
-                headers: {
+                headers: pkce ? {
+                    "Content-Type": "application/x-www-form-urlencoded"
+                } : {
                     "Content-Type": "application/x-www-form-urlencoded",
                     Authorization: "Basic " + Buffer.from(options.clientID + ":" + options.clientSecret).toString("base64"),
                 },
@@ -110,8 +289,17 @@ export default class AuthManager{
                 expiresIn: data.expires_in
             };
         }catch(e){
-            throw new UnexpectedError(e);
+            throw createError(e);
         }
     }
 
+}
+
+/**
+ * Converts a base64 string to a base64url string!
+ * 
+ * @param base64 The base64 string
+ */
+function toBase64URL(base64: string): string {
+    return base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
 }
\ No newline at end of file
@@ -1,5 +1,15 @@
-import Client from '../Client';
+import Client, { ClientOptions } from '../Client';
 import { FetchOptions } from '../Util';
+import CacheCollection from '../utils/CacheCollection';
+import ClientCache, { CacheName } from '../utils/ClientCache';
+import Batcher from '../utils/Batcher';
+import { PagingHooks } from '../utils/Paging';
+import { NotFoundError } from '../Errors';
+
+/**
+ * The item stored in a cache of the client!
+ */
+type CacheItem<K extends CacheName> = ClientCache[K] extends CacheCollection<infer T> ? T : never;
 
 /**
  * Simple base manager for spotify-api.js!
@@ -16,10 +26,87 @@ export default class BaseManager{
      * @warning Do not use this directly!
      */
     constructor(client: Client){
+        const manager = this.constructor.name;
+
         Object.defineProperties(this, {
             client: { value: client },
-            fetch: { value: client.util.fetch.bind(client.util) }
+            fetch: { value: (url: string, options?: FetchOptions) => client.util.fetch(url, { manager, ...options }) }
         })
     }
 
+    /**
+     * Loads the item through the batcher. A missing item throws a NotFoundError in the strict mode like the single item request does!
+     * 
+     * @param batcher The batcher of the manager
+     * @param path The path of the single item request
+     * @param id The id of the item
+     * @param market The market where the data needs to be fetched from
+     * @example return await this.loadBatched(this.batcher, `/tracks/${id}`, id, market);
+     */
+    protected async loadBatched<T>(batcher: Batcher<T>, path: string, id: string, market: string): Promise<T | null> {
+        const item = await batcher.load(id, market);
+
+        if(!item && this.client.requestOptions.strict) throw new NotFoundError({
+            config: { url: `/v1${path}`, method: 'GET' },
+            response: { status: 404, headers: {}, data: { error: { status: 404, message: 'Non existing id' } } }
+        });
+
+        return item;
+    }
+
+    /**
+     * Returns the item from the cache of the client or from the cache adapter and emits the cacheHit or cacheMiss event!
+     * A failing cache adapter and the simplified objects cached from other responses are treated as a cache miss so that the full item is fetched from the api!
+     * 
+     * @param cache The name of the cache
+     * @param id The id of the item
+     * @param create A function which creates the item from the raw object stored in the cache adapter
+     * @example const existing = await this.getCached('tracks', id, x => new Track(x, this.client));
+     */
+    protected async getCached<K extends CacheName>(cache: K, id: string, create: (data: any) => CacheItem<K>): Promise<CacheItem<K> | undefined> {
+        let existing = this.client.cache[cache].get(id) as CacheItem<K> | undefined;
+        if(existing && !this.client.cache.isFull(cache, (existing as { data?: any }).data || existing)) existing = undefined;
+
+        if(!existing && this.client.cacheAdapter){
+            const data = await this.client.cacheAdapter.get(`${cache}:${id}`).catch(() => null);
+
+            if(data && this.client.cache.isFull(cache, data)){
+                existing = create(data);
+                (this.client.cache[cache] as CacheCollection<CacheItem<K>>).set(id, existing);
+            }
+        }
+
+        this.client.emit(existing ? 'cacheHit' : 'cacheMiss', { cache, id });
+        return existing;
+    }
+
+    /**
+     * Returns the paging hooks of the manager which label the requests of the next pages with the manager and cache the items of every page if the cache option is enabled!
+     * 
+     * @param cache The name of the cache of the items
+     * @param option The client option which enables the caching of the items
+     * @example return createPaging(data, this.client, x => new Track(x, this.client), 'tracks', this.pagingHooks('tracks', 'cacheTracks'));
+     */
+    protected pagingHooks<T>(): PagingHooks<T>;
+    protected pagingHooks<K extends CacheName>(cache: K, option: keyof ClientOptions): PagingHooks<CacheItem<K>>;
+    protected pagingHooks(cache?: CacheName, option?: keyof ClientOptions): PagingHooks<any> {
+        return {
+            manager: this.constructor.name,
+            onItems: items => {
+                if(cache && option && this.client.cacheOptions[option]) for(const item of items) this.client.cache.add(cache, item);
+            }
+        };
+    }
+
+    /**
+     * Sets the item in the cache of the client and writes its raw object to the cache adapter!
+     * 
+     * @param cache The name of the cache
+     * @param item The item to cache
+     * @example this.setCached('tracks', track);
+     */
+    protected setCached<K extends CacheName>(cache: K, item: CacheItem<K>): void {
+        this.client.cache.add(cache, item);
+    }
+
 };
\ No newline at end of file
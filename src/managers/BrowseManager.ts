@@ -1,5 +1,6 @@
 import { handleError } from "../Errors";
-import { Category, Paging, PagingOptions, RawObject } from "../Types";
+import { createPaging, emptyPaging } from "../utils/Paging";
+import { Category, Paging, PagingOptions, RawObject, RequestOptions } from "../Types";
 import Playlist from "../structures/Playlist";
 import Album from "../structures/Album";
 import BaseManager from "./BaseManager";
@@ -22,21 +23,23 @@ export default class BrowseManager extends BaseManager{
      * 
      * @param id ID of the spotify category
      * @param force If true, it will attempt to search cache if available
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example await client.browse.getCategory('party'); 
      */
-    async getCategory(id: string, force: boolean = !this.client.cacheOptions.cacheCategories): Promise<Category | null> {
+    async getCategory(id: string, force: boolean = !this.client.cacheOptions.cacheCategories, requestOptions?: RequestOptions): Promise<Category | null> {
+        if(requestOptions) return this.client.withOptions(requestOptions).browse.getCategory(id, force);
 
         try{
             if(!force){
-                let existing = this.client.cache.categories.get(id);
+                let existing = await this.getCached('categories', id, x => x);
                 if(existing) return existing;
             }
 
             const category = await this.fetch(`/browse/categories/${id}`) as Category;
-            if(this.client.cacheOptions.cacheCategories) this.client.cache.categories.set(category.id, category);
+            if(this.client.cacheOptions.cacheCategories) this.setCached('categories', category);
             return category;
         }catch(e){
-            return handleError(e);
+            return handleError(e, this.client.requestOptions);
         }
 
     }
@@ -45,31 +48,17 @@ export default class BrowseManager extends BaseManager{
      * Returns an array of spotify categories
      * 
      * @param options Basic PagingOptions
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example client.browse.getCategories()
      */
-    async getCategories(options?: PagingOptions): Promise<Paging<Category>> {
+    async getCategories(options?: PagingOptions, requestOptions?: RequestOptions): Promise<Paging<Category>> {
+        if(requestOptions) return this.client.withOptions(requestOptions).browse.getCategories(options);
 
         try{
             const data = (await this.fetch('/browse/categories', { params: options })).categories;
-            const categories = data.items as Category[];
-
-            if(this.client.cacheOptions.cacheCategories){
-                for(let i = 0; i < categories.length; i++) this.client.cache.categories.set(categories[i].id, categories[i]);
-            }
-
-            return {
-                limit: data.limit,
-                offset: data.offset,
-                total: data.total,
-                items: categories
-            };
+            return createPaging(data, this.client, x => x as Category, 'categories', this.pagingHooks('categories', 'cacheCategories'));
         }catch(e){
-            return handleError(e) || {
-                limit: 0,
-                offset: 0,
-                total: 0,
-                items: []
-            };
+            return handleError(e, this.client.requestOptions) || emptyPaging();
         }
 
     }
@@ -79,31 +68,17 @@ export default class BrowseManager extends BaseManager{
      * 
      * @param id Spotify id of the category
      * @param options Options such as limit and offset
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example client.browse.getCategoryPlaylists('party');
      */
-    async getCategoryPlaylists(id: string, options?: PagingOptions): Promise<Paging<Playlist>> {
+    async getCategoryPlaylists(id: string, options?: PagingOptions, requestOptions?: RequestOptions): Promise<Paging<Playlist>> {
+        if(requestOptions) return this.client.withOptions(requestOptions).browse.getCategoryPlaylists(id, options);
 
         try{
             const data = (await this.fetch(`/browse/categories/${id}/playlists`, { params: options as RawObject })).playlists;
-            const playlists = data.items.map(x => new Playlist(x, this.client)) as Playlist[];
-
-            if(this.client.cacheOptions.cachePlaylists){
-                for(let i = 0; i < playlists.length; i++) this.client.cache.playlists.set(playlists[i].id, playlists[i]);
-            }
-
-            return {
-                limit: data.limit,
-                offset: data.offset,
-                total: data.total,
-                items: playlists
-            };
+            return createPaging(data, this.client, x => new Playlist(x, this.client), 'playlists', this.pagingHooks('playlists', 'cachePlaylists'));
         }catch(e){
-            return handleError(e) || {
-                limit: 0,
-                offset: 0,
-                total: 0,
-                items: []
-            };
+            return handleError(e, this.client.requestOptions) || emptyPaging();
         }
 
     }
@@ -112,27 +87,25 @@ export default class BrowseManager extends BaseManager{
      * Returns the featured playlists of the spotify
      * 
      * @param options Options such as limit and offset
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example client.browse.getFeaturedPlaylists();
      */
-    async getFeaturedPlaylists(options?: PagingOptions): Promise<FeaturedPlaylists | null> {
+    async getFeaturedPlaylists(options?: PagingOptions, requestOptions?: RequestOptions): Promise<FeaturedPlaylists | null> {
+        if(requestOptions) return this.client.withOptions(requestOptions).browse.getFeaturedPlaylists(options);
 
         try{
             const data = (await this.fetch('/browse/featured-playlists', { params: options })).playlists;
             const client = this.client;
+            const hooks = this.pagingHooks();
 
             return {
                 message: data.message,
                 get playlists(){
-                    return {
-                        limit: data.limit,
-                        offset: data.offset,
-                        total: data.total,
-                        items: data.items.map(x => new Playlist(x, client))
-                    } 
+                    return createPaging(data, client, x => new Playlist(x, client), 'playlists', hooks);
                 }
             }
         }catch(e){
-            return handleError(e);
+            return handleError(e, this.client.requestOptions);
         }
 
     }
@@ -141,31 +114,17 @@ export default class BrowseManager extends BaseManager{
      * Returns new releases of albums on spotify
      * 
      * @param options Basic PagingOptions
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example await client.browse.getNewReleases();
      */
-    async getNewReleases(options?: PagingOptions): Promise<Paging<Album>> {
+    async getNewReleases(options?: PagingOptions, requestOptions?: RequestOptions): Promise<Paging<Album>> {
+        if(requestOptions) return this.client.withOptions(requestOptions).browse.getNewReleases(options);
 
         try{
             const data = (await this.fetch('/browse/new-releases', { params: options })).albums;
-            const albums = data.items.map(x => new Album(x, this.client));
-
-            if(this.client.cacheOptions.cacheAlbums){
-                for(let i = 0; i < albums.length; i++) this.client.cache.albums.set(albums[i].id, albums[i]);
-            }
-
-            return {
-                limit: data.limit,
-                offset: data.offset,
-                total: data.total,
-                items: albums
-            };
+            return createPaging(data, this.client, x => new Album(x, this.client), 'albums', this.pagingHooks('albums', 'cacheAlbums'));
         }catch(e){
-            return handleError(e) || {
-                limit: 0,
-                offset: 0,
-                total: 0,
-                items: []
-            };
+            return handleError(e, this.client.requestOptions) || emptyPaging();
         }
 
     }
@@ -173,14 +132,16 @@ export default class BrowseManager extends BaseManager{
     /**
      * Returns all markets present in spotify!
      * 
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example await client.browse.getAllMarkets();
      */
-    async getMarkets(): Promise<string[]> {
+    async getMarkets(requestOptions?: RequestOptions): Promise<string[]> {
+        if(requestOptions) return this.client.withOptions(requestOptions).browse.getMarkets();
 
         try{
             return (await this.fetch('/markets')).markets;
         }catch(e){
-            return handleError(e) || [];
+            return handleError(e, this.client.requestOptions) || [];
         }
 
     }
@@ -188,14 +149,16 @@ export default class BrowseManager extends BaseManager{
     /**
      * Returns recommended genres!
      * 
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example await client.browse.getRecommendedGenres();
      */
-    async getRecommendedGenres(): Promise<string[]> {
+    async getRecommendedGenres(requestOptions?: RequestOptions): Promise<string[]> {
+        if(requestOptions) return this.client.withOptions(requestOptions).browse.getRecommendedGenres();
 
         try{
             return (await this.fetch('/recommendations/available-genre-seeds')).genres;
         }catch(e){
-            return handleError(e) || [];
+            return handleError(e, this.client.requestOptions) || [];
         }
 
     }
@@ -1,6 +1,10 @@
-import { handleError, UnexpectedError } from "../Errors";
+import Client from "../Client";
+import { handleError } from "../Errors";
+import Batcher, { createBatcher } from "../utils/Batcher";
+import { mapChunks } from "../utils/Chunks";
+import { createPaging, emptyPaging } from "../utils/Paging";
 import Episode from "../structures/Episode";
-import { GetMultipleOptions, Paging, SearchOptions } from "../Types";
+import { GetMultipleOptions, Paging, RequestOptions, SearchOptions } from "../Types";
 import BaseManager from "./BaseManager";
 
 /**
@@ -8,16 +12,31 @@ import BaseManager from "./BaseManager";
  */
 export default class EpisodeManager extends BaseManager{
 
+    readonly batcher!: Batcher<Episode> | null;
+
+    /**
+     * A class which manages the episodes api!
+     * 
+     * @param client Your spotify client
+     * @example const episodes = new EpisodeManager(client);
+     */
+    constructor(client: Client){
+        super(client);
+        Object.defineProperty(this, 'batcher', { value: createBatcher(client, 50, (ids, market) => this.getMultiple({ ids, market })) });
+    }
+
     /**
      * Search episodes!
      * 
      * @param query Your query to search
      * @param options Basic SearchOptions but no `type` field should be provided!
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example await client.episodes.search('some query');
      */
     async search(query: string, options: Omit<SearchOptions, 'type'> = {
         market: 'US'    
-    }): Promise<Paging<Episode>> {
+    }, requestOptions?: RequestOptions): Promise<Paging<Episode>> {
+        if(requestOptions) return this.client.withOptions(requestOptions).episodes.search(query, options);
 
         try{
             const data = (await this.fetch('/search', {
@@ -28,25 +47,9 @@ export default class EpisodeManager extends BaseManager{
                 }
             })).episodes;
             
-            const episodes = data.items.map(x => new Episode(x, this.client));
-
-            if(this.client.cacheOptions.cacheEpisodes){
-                for(let i = 0; i < episodes.length; i++) this.client.cache.episodes.set(episodes[i].id, episodes[i]);
-            }
-
-            return {
-                limit: data.limit,
-                offset: data.offset,
-                total: data.total,
-                items: episodes
-            };
+            return createPaging(data, this.client, x => new Episode(x, this.client), 'episodes', this.pagingHooks('episodes', 'cacheEpisodes'));
         }catch(e){
-            return handleError(e) || {
-                limit: 0,
-                offset: 0,
-                total: 0,
-                items: []
-            };
+            return handleError(e, this.client.requestOptions) || emptyPaging();
         }
 
     }
@@ -57,56 +60,59 @@ export default class EpisodeManager extends BaseManager{
      * @param id Spotify episode id
      * @param force If true, will directly fetch else will search for cache first!
      * @param market The market where we need to fetch the details!
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example await client.episodes.get('id');
      */
-    async get(id: string, force: boolean = !this.client.cacheOptions.cacheEpisodes, market: string = 'US'): Promise<Episode | null> {
+    async get(id: string, force: boolean = !this.client.cacheOptions.cacheEpisodes, market: string = 'US', requestOptions?: RequestOptions): Promise<Episode | null> {
+        if(requestOptions) return this.client.withOptions(requestOptions).episodes.get(id, force, market);
 
         try{
             if(!force){
-                let existing = this.client.cache.episodes.get(id);
+                let existing = await this.getCached('episodes', id, x => new Episode(x, this.client));
                 if(existing) return existing;
             }
 
+            if(this.batcher) return await this.loadBatched(this.batcher, `/episodes/${id}`, id, market);
+
             const episode = new Episode(await this.fetch(`/episodes/${id}`, {
                 params: { market }
             }), this.client);
 
-            if(this.client.cacheOptions.cacheEpisodes) this.client.cache.episodes.set(id, episode);
+            if(this.client.cacheOptions.cacheEpisodes) this.setCached('episodes', episode);
             return episode;
         }catch(e){
-            return handleError(e);
+            return handleError(e, this.client.requestOptions);
         }
 
     }
 
     /**
-     * Get multiple episodes at one fetch!
+     * Get multiple episodes! Any number of ids can be provided as they are fetched in chunks of 50.
+     * The episodes which were not found are returned as null!
      * 
      * @param options Basic GetMultipleOptions
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example await client.episodes.getMultiple({
      *     ids: ['123456789']
      * })
      */
-    async getMultiple(options: GetMultipleOptions): Promise<Episode[]> {
+    async getMultiple(options: GetMultipleOptions, requestOptions?: RequestOptions): Promise<(Episode | null)[]> {
+        if(requestOptions) return this.client.withOptions(requestOptions).episodes.getMultiple(options);
 
         try{
-            const def = { market: 'US', ids: [] as any };
-            Object.assign(def, options);
-
-            if(!def.ids.length  || def.ids.length > 20) throw new UnexpectedError("You must provide more than 1 and less than 20 ids to fetch multiple episodes!");
-            def.ids = def.ids.join(',');
+            const market = options.market || 'US';
 
-            const episodes = (await this.fetch('/episodes', { 
-                params: def
-            })).episodes.map(x => new Episode(x, this.client));
+            const episodes = await mapChunks(options.ids, 50, async chunk => (await this.fetch('/episodes', {
+                params: { market, ids: chunk.join(',') }
+            })).episodes.map(x => x ? new Episode(x, this.client) : null) as (Episode | null)[], this.client.util.concurrency);
 
             if(this.client.cacheOptions.cacheEpisodes){
-                for(let i = 0; i < episodes.length; i++) this.client.cache.episodes.set(episodes[i].id, episodes[i]);
+                for(const episode of episodes) if(episode) this.setCached('episodes', episode);
             }
 
             return episodes;
         }catch(e){
-            return handleError(e) || [];
+            return handleError(e, this.client.requestOptions) || [];
         }
 
     }
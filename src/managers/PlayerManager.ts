@@ -1,9 +1,12 @@
 import UserClient from '../UserClient';
 import Client from '../Client';
-import { RawObject, SpotifyTypes, SpotifyURI } from '../Types';
+import { FetchOptions } from '../Util';
+import { CursorPaging, RawObject, RequestOptions, SpotifyTypes, SpotifyURI } from '../Types';
 import Track from '../structures/Track';
 import Episode from '../structures/Episode';
 import { handleError } from '../Errors';
+import { createCursorPaging } from '../utils/Paging';
+import { CursorPaginator } from '../utils/Paginator';
 
 /**
  * Spotify api's device object!
@@ -60,10 +63,17 @@ export interface ContextType{
 /**
  * Spotify api's recently played object!
  */
-export interface RecentlyPlayedType{
-    items: PlayHistoryType[];
-    cursors: { after: string, before: string };
-    limit: number;
+export type RecentlyPlayedType = CursorPaging<PlayHistoryType>;
+
+/**
+ * Options for player.getRecentlyPlayed and player.iterateRecentlyPlayed!
+ * The after and before fields are unix timestamps in milliseconds.
+ */
+export interface RecentlyPlayedOptions{
+    market?: string;
+    limit?: number;
+    after?: number;
+    before?: number;
 }
 
 /**
@@ -207,26 +217,38 @@ export default class PlayerManager {
         })
     }
 
+    /**
+     * Fetches from the spotify api and labels the request events with the PlayerManager!
+     * 
+     * @param url The path from spotify api to fetch!
+     * @param options The additional options required to fetch
+     */
+    private fetch(url: string, options?: FetchOptions): Promise<any> {
+        return this.client.util.fetch(url, { manager: 'PlayerManager', ...options });
+    }
+
     /**
      * Returns the current playback of the current user!
      * 
      * @param options Options containing the fields market and additionalTypes
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example const playback = await player.getCurrentPlayback();
      */
     async getCurrentPlayback(options: {
         market?: string;
         additionalTypes?: 'track' | 'episode'
-    } = {}): Promise<CurrentPlaybackType | null> {
+    } = {}, requestOptions?: RequestOptions): Promise<CurrentPlaybackType | null> {
+        if(requestOptions) return this.client.withOptions(requestOptions).user.player.getCurrentPlayback(options);
 
         try{
-            return CurrentPlayback(await this.client.util.fetch('/me/player', {
+            return CurrentPlayback(await this.fetch('/me/player', {
                 params: {
                     market: options.market || 'US',
                     additional_types: options.additionalTypes || 'track'
                 }
             }), this.client);
         }catch(e){
-            return handleError(e);
+            return handleError(e, this.client.requestOptions);
         }
 
     }
@@ -236,12 +258,14 @@ export default class PlayerManager {
      * 
      * @param devices Array of device ids
      * @param options Options containing the play field
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example await player.transferPlayback(['id1'], { play: true });
      */
-    async transferPlayback(devices: string[], options?: { play?: boolean }): Promise<boolean> {
+    async transferPlayback(devices: string[], options?: { play?: boolean }, requestOptions?: RequestOptions): Promise<boolean> {
+        if(requestOptions) return this.client.withOptions(requestOptions).user.player.transferPlayback(devices, options);
 
         try{
-            await this.client.util.fetch('/me/player', {
+            await this.fetch('/me/player', {
                 method: 'PUT',
                 headers: {
                     "Content-Type": "application/json"
@@ -254,21 +278,23 @@ export default class PlayerManager {
 
             return true;
         }catch(e){
-            return handleError(e) || false;
+            return handleError(e, this.client.requestOptions) || false;
         }
 
     }
 
     /**
      * Returns all the devices of the current user
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example const devices = await player.getDevices();
      */
-    async getDevices(): Promise<DeviceType[]> {
+    async getDevices(requestOptions?: RequestOptions): Promise<DeviceType[]> {
+        if(requestOptions) return this.client.withOptions(requestOptions).user.player.getDevices();
 
         try{
-            return (await this.client.util.fetch('/me/player/devices')).devices.map(Device);
+            return (await this.fetch('/me/player/devices')).devices.map(Device);
         }catch(e){
-            return handleError(e) || [];
+            return handleError(e, this.client.requestOptions) || [];
         }
 
     }
@@ -277,15 +303,18 @@ export default class PlayerManager {
      * Returns the current playing of the current user!
      * 
      * @param options Options containing the fields market and additionalTypes
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example const playing = await player.getCurrentlyPlaying();
      */
     async getCurrentlyPlaying(options: {
         market?: string;
         additionalTypes?: 'track' | 'episode'
-    } = {}): Promise<CurrentlyPlayingType | null> {
+    } = {}, requestOptions?: RequestOptions): Promise<CurrentlyPlayingType | null> {
+        if(requestOptions) return this.client.withOptions(requestOptions).user.player.getCurrentlyPlaying(options);
 
         try{
             const { data, status } = await this.client.util.fetchWithResponse('/me/player/currently-playing', {
+                manager: 'PlayerManager',
                 params: {
                     market: options.market || 'US',
                     additional_types: options.additionalTypes || 'track'
@@ -294,7 +323,7 @@ export default class PlayerManager {
 
             return status != 204 ? CurrentlyPlaying(data, this.client) : null;
         }catch(e){
-            return handleError(e);
+            return handleError(e, this.client.requestOptions);
         }
 
     }
@@ -303,33 +332,58 @@ export default class PlayerManager {
      * Returns the recently played object!
      * 
      * @param options Options consisting of after, before and market field
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example const recentlyPlayed = await player.getRecentlyPlayed();
      */
-    async getRecentlyPlayed(options?: {
-        market?: string,
-        after?: number,
-        before?: number
-    }): Promise<RecentlyPlayedType | null> {
+    async getRecentlyPlayed(options?: RecentlyPlayedOptions, requestOptions?: RequestOptions): Promise<RecentlyPlayedType | null> {
+        if(requestOptions) return this.client.withOptions(requestOptions).user.player.getRecentlyPlayed(options);
 
         try{
-            const data = await this.client.util.fetch('/me/player/recently-played', { params: options as RawObject });
-
-            return {
-                items: data.items.map(x => PlayHistory(x, this.client)),
-                cursors: data.cursors,
-                limit: data.limit
-            }
+            const data = await this.fetch('/me/player/recently-played', { params: options as RawObject });
+            return createCursorPaging(data, this.client, x => PlayHistory(x, this.client), undefined, { manager: 'PlayerManager' });
         }catch(e){
-            return handleError(e);
+            return handleError(e, this.client.requestOptions);
         }
 
     }
 
+    /**
+     * Returns a paginator which walks back through the listening history using the before cursors!
+     * If the after timestamp is provided, the paginator stops when it reaches the items played before it.
+     * 
+     * @param options Options consisting of after, before, limit and market field
+     * @param requestOptions Request options of the call such as a signal or a timeout
+     * @example const history = await player.iterateRecentlyPlayed({ after: Date.now() - 86400000 }).collect();
+     */
+    iterateRecentlyPlayed(options: RecentlyPlayedOptions = {}, requestOptions?: RequestOptions): CursorPaginator<PlayHistoryType> {
+        if(requestOptions) return this.client.withOptions(requestOptions).user.player.iterateRecentlyPlayed(options);
+
+        const { after, ...params } = options;
+
+        return new CursorPaginator(async before => {
+            const page = await this.getRecentlyPlayed({ ...params, before: before ? Number(before) : params.before });
+            if(!page || after === undefined) return page;
+
+            const items = page.items.filter(x => new Date(x.playedAt).getTime() > after);
+            if(items.length == page.items.length) return page;
+
+            return {
+                ...page,
+                items,
+                cursors: { after: page.cursors.after, before: null },
+                nextUrl: null,
+                next: async () => null
+            };
+        }, { direction: 'before' });
+
+    }
+
     /**
      * Play or resume your player!
      * 
      * @param options Options used to play!
      * @param deviceID The device id to play else will target the currently active one
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example await player.play();
      */
     async play({
@@ -344,7 +398,8 @@ export default class PlayerManager {
         uris?: string[];
         position?: number;
         offset?: number;
-    } = {}): Promise<boolean> {
+    } = {}, requestOptions?: RequestOptions): Promise<boolean> {
+        if(requestOptions) return this.client.withOptions(requestOptions).user.player.play({ deviceID, contextURI, uris, position, offset });
 
         try{
             const opts = { 
@@ -357,14 +412,14 @@ export default class PlayerManager {
 
             Object.keys(opts).forEach(x => !opts[x] ? delete opts[x] : null);
 
-            await this.client.util.fetch('/me/player/play', {
+            await this.fetch('/me/player/play', {
                 method: 'PUT',
                 params: opts as RawObject
             });
 
             return true;
         }catch(e){
-            return handleError(e) || false;
+            return handleError(e, this.client.requestOptions) || false;
         }
 
     }
@@ -373,22 +428,24 @@ export default class PlayerManager {
      * Pause your player
      * 
      * @param deviceID The device id to pause else will target the currently active one
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example await player.pause();
      */
-    async pause(deviceID?: string): Promise<boolean> {
+    async pause(deviceID?: string, requestOptions?: RequestOptions): Promise<boolean> {
+        if(requestOptions) return this.client.withOptions(requestOptions).user.player.pause(deviceID);
 
         try{
             const opts = { device_id: deviceID };
             Object.keys(opts).forEach(x => !opts[x] ? delete opts[x] : null);
 
-            await this.client.util.fetch('/me/player/pause', {
+            await this.fetch('/me/player/pause', {
                 method: 'PUT',
                 params: opts as RawObject
             });
 
             return true;
         }catch(e){
-            return handleError(e) || false;
+            return handleError(e, this.client.requestOptions) || false;
         }
 
     }
@@ -397,22 +454,24 @@ export default class PlayerManager {
      * Move to the next item in the queue
      * 
      * @param deviceID The device id to move to the next item in the queue else will target the currently active one
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example await player.next();
      */
-    async next(deviceID?: string): Promise<boolean> {
+    async next(deviceID?: string, requestOptions?: RequestOptions): Promise<boolean> {
+        if(requestOptions) return this.client.withOptions(requestOptions).user.player.next(deviceID);
 
         try{
             const opts = { device_id: deviceID };
             Object.keys(opts).forEach(x => !opts[x] ? delete opts[x] : null);
 
-            await this.client.util.fetch('/me/player/next', {
+            await this.fetch('/me/player/next', {
                 method: 'POST',
                 params: opts as RawObject
             });
 
             return true;
         }catch(e){
-            return handleError(e) || false;
+            return handleError(e, this.client.requestOptions) || false;
         }
 
     }
@@ -421,22 +480,24 @@ export default class PlayerManager {
      * Move to the previous item in the queue
      * 
      * @param deviceID The device id to move to the previous item in the queue else will target the currently active one
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example await player.previous();
      */
-    async previous(deviceID?: string): Promise<boolean> {
+    async previous(deviceID?: string, requestOptions?: RequestOptions): Promise<boolean> {
+        if(requestOptions) return this.client.withOptions(requestOptions).user.player.previous(deviceID);
 
         try{
             const opts = { device_id: deviceID };
             Object.keys(opts).forEach(x => !opts[x] ? delete opts[x] : null);
 
-            await this.client.util.fetch('/me/player/previous', {
+            await this.fetch('/me/player/previous', {
                 method: 'POST',
                 params: opts as RawObject
             });
 
             return true;
         }catch(e){
-            return handleError(e) || false;
+            return handleError(e, this.client.requestOptions) || false;
         }
 
     }
@@ -446,22 +507,24 @@ export default class PlayerManager {
      * 
      * @param position Position in ms to seek
      * @param deviceID The device id to add item else will target the currently active one
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example await player.seek(12000);
      */
-    async seek(position: number, deviceID?: string): Promise<boolean> {
+    async seek(position: number, deviceID?: string, requestOptions?: RequestOptions): Promise<boolean> {
+        if(requestOptions) return this.client.withOptions(requestOptions).user.player.seek(position, deviceID);
 
         try{
             const opts = { position_ms: position, device_id: deviceID };
             Object.keys(opts).forEach(x => !opts[x] ? delete opts[x] : null);
 
-            await this.client.util.fetch('/me/player/seek', {
+            await this.fetch('/me/player/seek', {
                 method: 'PUT',
                 params: opts as RawObject
             });
 
             return true;
         }catch(e){
-            return handleError(e) || false;
+            return handleError(e, this.client.requestOptions) || false;
         }
 
     }
@@ -471,22 +534,24 @@ export default class PlayerManager {
      * 
      * @param state Repeat mode to set
      * @param deviceID The device id to set repeat mode else will target the currently active one
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example await player.setRepeatMode('track');
      */
-    async setRepeatMode(state: 'track' | 'context' | 'off', deviceID?: string): Promise<boolean> {
+    async setRepeatMode(state: 'track' | 'context' | 'off', deviceID?: string, requestOptions?: RequestOptions): Promise<boolean> {
+        if(requestOptions) return this.client.withOptions(requestOptions).user.player.setRepeatMode(state, deviceID);
 
         try{
             const opts = { state, device_id: deviceID };
             Object.keys(opts).forEach(x => !opts[x] ? delete opts[x] : null);
 
-            await this.client.util.fetch('/me/player/repeat', {
+            await this.fetch('/me/player/repeat', {
                 method: 'PUT',
                 params: opts as RawObject
             });
 
             return true;
         }catch(e){
-            return handleError(e) || false;
+            return handleError(e, this.client.requestOptions) || false;
         }
 
     }
@@ -497,22 +562,24 @@ export default class PlayerManager {
      * 
      * @param volume Percentage of volume to set
      * @param deviceID The device id to set volume else will target the currently active one
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example await player.setVolume(20);
      */
-    async setVolume(volume: number, deviceID?: string): Promise<boolean> {
+    async setVolume(volume: number, deviceID?: string, requestOptions?: RequestOptions): Promise<boolean> {
+        if(requestOptions) return this.client.withOptions(requestOptions).user.player.setVolume(volume, deviceID);
 
         try{
             const opts = { volume_percent: volume, device_id: deviceID };
             Object.keys(opts).forEach(x => !opts[x] ? delete opts[x] : null);
 
-            await this.client.util.fetch('/me/player/volume', {
+            await this.fetch('/me/player/volume', {
                 method: 'PUT',
                 params: opts as RawObject
             });
 
             return true;
         }catch(e){
-            return handleError(e) || false;
+            return handleError(e, this.client.requestOptions) || false;
         }
 
     }
@@ -523,22 +590,24 @@ export default class PlayerManager {
      * 
      * @param state If true, will shuffle else will undhuffle
      * @param deviceID The device id to shuffle else will target the currently active one
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example await player.shuffle();
      */
-    async shuffle(state: boolean = true, deviceID?: string): Promise<boolean> {
+    async shuffle(state: boolean = true, deviceID?: string, requestOptions?: RequestOptions): Promise<boolean> {
+        if(requestOptions) return this.client.withOptions(requestOptions).user.player.shuffle(state, deviceID);
 
         try{
             const opts = { state, device_id: deviceID };
             Object.keys(opts).forEach(x => !opts[x] ? delete opts[x] : null);
 
-            await this.client.util.fetch('/me/player/shuffle', {
+            await this.fetch('/me/player/shuffle', {
                 method: 'PUT',
                 params: opts as RawObject
             });
 
             return true;
         }catch(e){
-            return handleError(e) || false;
+            return handleError(e, this.client.requestOptions) || false;
         }
 
     }
@@ -549,22 +618,24 @@ export default class PlayerManager {
      * 
      * @param uri Spotify uri of the item to add to the queue
      * @param deviceID The device id to add item else will target the currently active one
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example await player.addItem('uri');
      */
-    async addItem(uri: SpotifyURI, deviceID?: string): Promise<boolean> {
+    async addItem(uri: SpotifyURI, deviceID?: string, requestOptions?: RequestOptions): Promise<boolean> {
+        if(requestOptions) return this.client.withOptions(requestOptions).user.player.addItem(uri, deviceID);
 
         try{
             const opts = { uri, device_id: deviceID };
             Object.keys(opts).forEach(x => !opts[x] ? delete opts[x] : null);
 
-            await this.client.util.fetch('/me/player/queue', {
+            await this.fetch('/me/player/queue', {
                 method: 'POST',
                 params: opts as RawObject
             });
 
             return true;
         }catch(e){
-            return handleError(e) || false;
+            return handleError(e, this.client.requestOptions) || false;
         }
 
     }
@@ -1,6 +1,9 @@
 import { handleError } from "../Errors";
+import { mapChunks } from "../utils/Chunks";
+import { createPaging, emptyPaging } from "../utils/Paging";
 import Playlist, { PlaylistTrack, PlaylistTrackType } from "../structures/Playlist";
-import { Image, Paging, PagingOptions, RawObject, SearchOptions, SpotifyURI } from "../Types";
+import { IDsWithOptions, Image, Paging, PagingOptions, RawObject, RequestOptions, SearchOptions, SpotifyURI } from "../Types";
+import { splitRequestOptions } from '../Util';
 import { CreatePlaylist } from "../UserClient";
 import BaseManager from "./BaseManager";
 
@@ -24,9 +27,11 @@ export default class PlaylistManager extends BaseManager{
      * 
      * @param query Your query to search
      * @param options Basic SearchOptions but no `type` field should be provided!
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example await client.playlists.search('some query');
      */
-    async search(query: string, options?: Omit<SearchOptions, 'type'>): Promise<Paging<Playlist>> {
+    async search(query: string, options?: Omit<SearchOptions, 'type'>, requestOptions?: RequestOptions): Promise<Paging<Playlist>> {
+        if(requestOptions) return this.client.withOptions(requestOptions).playlists.search(query, options);
 
         try{
             const data = (await this.fetch('/search', {
@@ -37,25 +42,9 @@ export default class PlaylistManager extends BaseManager{
                 }
             })).playlists;
 
-            const playlists = data.items.map(x => new Playlist(x, this.client));
-
-            if(this.client.cacheOptions.cachePlaylists){
-                for(let i = 0; i < playlists.length; i++) this.client.cache.playlists.set(playlists[i].id, playlists[i]);
-            }
-
-            return {
-                limit: data.limit,
-                offset: data.offset,
-                total: data.total,
-                items: playlists
-            };
+            return createPaging(data, this.client, x => new Playlist(x, this.client), 'playlists', this.pagingHooks('playlists', 'cachePlaylists'));
         }catch(e){
-            return handleError(e) || {
-                limit: 0,
-                offset: 0,
-                total: 0,
-                items: []
-            };
+            return handleError(e, this.client.requestOptions) || emptyPaging();
         }
 
     }
@@ -66,23 +55,25 @@ export default class PlaylistManager extends BaseManager{
      * @param id Spotify playlist id
      * @param force If true, will directly fetch else will search for cache first!
      * @param market The market where the data needs to be fetched from
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example await client.playlists.get('id');
      */
-    async get(id: string, force: boolean = !this.client.cacheOptions.cachePlaylists, market: string = 'US'): Promise<Playlist | null> {
-
-        if(!force){
-            let existing = this.client.cache.playlists.get(id);
-            if(existing) return existing;
-        }
+    async get(id: string, force: boolean = !this.client.cacheOptions.cachePlaylists, market: string = 'US', requestOptions?: RequestOptions): Promise<Playlist | null> {
+        if(requestOptions) return this.client.withOptions(requestOptions).playlists.get(id, force, market);
 
         try{
+            if(!force){
+                let existing = await this.getCached('playlists', id, x => new Playlist(x, this.client));
+                if(existing) return existing;
+            }
+
             const playlist = new Playlist(await this.fetch(`/playlists/${id}`, {
                 params: { market }
             }), this.client);
-            if(this.client.cacheOptions.cachePlaylists) this.client.cache.playlists.set(playlist.id, playlist);
+            if(this.client.cacheOptions.cachePlaylists) this.setCached('playlists', playlist);
             return playlist;
         }catch(e){
-            return handleError(e);
+            return handleError(e, this.client.requestOptions);
         }
 
     }
@@ -92,27 +83,17 @@ export default class PlaylistManager extends BaseManager{
      * 
      * @param id The id of the playlist
      * @param options Basic PagingOptions
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example await client.playlists.getTracks('id');
      */
-    async getTracks(id: string, options: PagingOptions = { market: 'US' }): Promise<Paging<PlaylistTrackType>> {
+    async getTracks(id: string, options: PagingOptions = { market: 'US' }, requestOptions?: RequestOptions): Promise<Paging<PlaylistTrackType>> {
+        if(requestOptions) return this.client.withOptions(requestOptions).playlists.getTracks(id, options);
 
         try{
             const data = (await this.fetch(`/playlists/${id}/tracks`, { params: options as RawObject }));
-            const tracks = data.items.map(x => PlaylistTrack(x, this.client)) as PlaylistTrackType[];
-
-            return {
-                limit: data.limit,
-                offset: data.offset,
-                total: data.total,
-                items: tracks
-            };
+            return createPaging(data, this.client, x => PlaylistTrack(x, this.client), undefined, this.pagingHooks());
         }catch(e){
-            return handleError(e) || {
-                limit: 0,
-                offset: 0,
-                total: 0,
-                items: []
-            };
+            return handleError(e, this.client.requestOptions) || emptyPaging();
         }
 
     }
@@ -121,14 +102,16 @@ export default class PlaylistManager extends BaseManager{
      * Returns the images of the playlists!
      * 
      * @param id ID of the playlist
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example client.playlists.getImages(id);
      */
-    async getImages(id: string): Promise<Image[]> {
+    async getImages(id: string, requestOptions?: RequestOptions): Promise<Image[]> {
+        if(requestOptions) return this.client.withOptions(requestOptions).playlists.getImages(id);
 
         try{
             return await this.fetch(`/playlists/${id}/images`);
         }catch(e){
-            return handleError(e) || [];
+            return handleError(e, this.client.requestOptions) || [];
         }
 
     }
@@ -137,19 +120,21 @@ export default class PlaylistManager extends BaseManager{
      * Verify if many or some user follows a playlist!
      * 
      * @param playlistID Spotify playlist id
-     * @param ids Array of user ids to verify
+     * @param args Array of user ids to verify, optionally followed by the request options of the call
      * @example const [firstUserFollows, secondUserFollows] = await client.playlists.userFollows('playlist_id', 'userid1', 'userid2');
      */
-    async userFollows(playlistID: string, ...ids: string[]): Promise<boolean[]> {
+    async userFollows(playlistID: string, ...args: IDsWithOptions): Promise<boolean[]> {
+        const [ids, requestOptions] = splitRequestOptions(args);
+        if(requestOptions) return this.client.withOptions(requestOptions).playlists.userFollows(playlistID, ...ids);
 
         try{
-            return await this.fetch(`/playlists/${playlistID}/followers/contains`, {
+            return await mapChunks(ids, 5, chunk => this.fetch(`/playlists/${playlistID}/followers/contains`, {
                 params: {
-                    ids: ids.join(',')
+                    ids: chunk.join(',')
                 }
-            });
+            }), this.client.util.concurrency);
         }catch(e){
-            return handleError(e) || [];
+            return handleError(e, this.client.requestOptions) || [];
         }
 
     }
@@ -159,9 +144,12 @@ export default class PlaylistManager extends BaseManager{
      * 
      * @param id ID of the spotify playlist
      * @param options Options consisting of public field
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example await client.playlists.follow('id');
      */
-    async follow(id: string, options?: { public?: boolean }): Promise<boolean> {
+    async follow(id: string, options?: { public?: boolean }, requestOptions?: RequestOptions): Promise<boolean> {
+        if(requestOptions) return this.client.withOptions(requestOptions).playlists.follow(id, options);
+
         return await this.client.user.followPlaylist(id, options);
     }
 
@@ -169,9 +157,12 @@ export default class PlaylistManager extends BaseManager{
      * Unfollow a playlist!
      * 
      * @param id ID of the spotify playlist
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example await client.playlists.unfollow('id');
      */
-    async unfollow(id: string): Promise<boolean> {
+    async unfollow(id: string, requestOptions?: RequestOptions): Promise<boolean> {
+        if(requestOptions) return this.client.withOptions(requestOptions).playlists.unfollow(id);
+
         return await this.client.user.unfollowPlaylist(id);
     }
 
@@ -179,9 +170,12 @@ export default class PlaylistManager extends BaseManager{
      * Verify if the current user follows a playlist
      * 
      * @param id ID of the spotify playlist
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example const followsPlaylist = await client.playlists.follows('id');
      */
-    async follows(id: string): Promise<boolean> {
+    async follows(id: string, requestOptions?: RequestOptions): Promise<boolean> {
+        if(requestOptions) return this.client.withOptions(requestOptions).playlists.follows(id);
+
         return await this.client.user.followsPlaylist(id);
     }
 
@@ -189,6 +183,7 @@ export default class PlaylistManager extends BaseManager{
      * Create a spotify playlist for yourself or for the current user!
      * 
      * @param options Options to create a playlist!
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example await client.playlists.create({
      *     name: 'Funky playlist',
      *     description: 'My own cool playlist created by spotify-api.js',
@@ -197,7 +192,9 @@ export default class PlaylistManager extends BaseManager{
      *     userID: client.user.id // By default will be the current user id!
      * });
      */
-    async create(options: CreatePlaylist): Promise<Playlist | null> {
+    async create(options: CreatePlaylist, requestOptions?: RequestOptions): Promise<Playlist | null> {
+        if(requestOptions) return this.client.withOptions(requestOptions).playlists.create(options);
+
         return await this.client.user.createPlaylist(options);
     }
 
@@ -206,11 +203,14 @@ export default class PlaylistManager extends BaseManager{
      * 
      * @param id ID of the spotify playlist
      * @param options CreatePlaylist object but userID field should not be provided!
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example await client.playlists.edit('id', {
      *     description: 'Edited new description'
      * });
      */
-    async edit(id: string, options: Omit<CreatePlaylist, 'userID'>): Promise<boolean> {
+    async edit(id: string, options: Omit<CreatePlaylist, 'userID'>, requestOptions?: RequestOptions): Promise<boolean> {
+        if(requestOptions) return this.client.withOptions(requestOptions).playlists.edit(id, options);
+
        return await this.client.user.editPlaylist(id, options); 
     }
 
@@ -220,20 +220,25 @@ export default class PlaylistManager extends BaseManager{
      * @param id ID pf the spotify playlist
      * @param items Array of uris of the spotify episodes or spotify tracks to add to the playlist
      * @param options Options containing position field
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example await client.playlists.addItems('id', ['spotify:track:id']);
      */
-    async addItems(id: string, items: SpotifyURI[], options?: { position?: number }): Promise<string | null> {
+    async addItems(id: string, items: SpotifyURI[], options?: { position?: number }, requestOptions?: RequestOptions): Promise<string | null> {
+        if(requestOptions) return this.client.withOptions(requestOptions).playlists.addItems(id, items, options);
 
         try{
-            return (await this.fetch(`/playlists/${id}/tracks`, {
+            const snapshot = (await this.fetch(`/playlists/${id}/tracks`, {
                 method: 'POST',
                 params: {
                     ...options,
                     uris: items.join(',')
                 } as RawObject
             })).snapshot_id;
+
+            this.client.cache.remove('playlists', id);
+            return snapshot;
         }catch(e){
-            return handleError(e) || null;
+            return handleError(e, this.client.requestOptions) || null;
         }
 
     }
@@ -243,11 +248,13 @@ export default class PlaylistManager extends BaseManager{
      * 
      * @param id ID of the spotify playlist
      * @param options ReorderOptions of spotify playlist!
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example await client.playlists.reorderItems('id', ['spotify:track:id'], {
      *     insertBefore: 10
      * })
      */
-    async reorderItems(id: string, items: SpotifyURI[], options: ReorderOptions = {}): Promise<string | null> {
+    async reorderItems(id: string, items: SpotifyURI[], options: ReorderOptions = {}, requestOptions?: RequestOptions): Promise<string | null> {
+        if(requestOptions) return this.client.withOptions(requestOptions).playlists.reorderItems(id, items, options);
 
         try{
             const opts = {
@@ -259,8 +266,9 @@ export default class PlaylistManager extends BaseManager{
 
             Object.keys(opts).forEach(x => !opts[x] ? delete opts[x] : null);
 
-            return (await this.fetch(`/playlists/${id}/tracks`, {
+            const snapshot = (await this.fetch(`/playlists/${id}/tracks`, {
                 method: 'PUT',
+                retry: false,
                 headers: {
                     "Content-Type": "application/json"
                 },
@@ -269,8 +277,11 @@ export default class PlaylistManager extends BaseManager{
                     uris: items
                 } as RawObject
             })).snapshot_id;
+
+            this.client.cache.remove('playlists', id);
+            return snapshot;
         }catch(e){
-            return handleError(e) || null;
+            return handleError(e, this.client.requestOptions) || null;
         }
 
     }
@@ -281,15 +292,17 @@ export default class PlaylistManager extends BaseManager{
      * @param id ID of the spotify playlist
      * @param items Array of spotify uris of tracks and episodes to remove from the playlist!
      * @param snapshotID The playlist’s snapshot ID against which you want to make the changes.
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example await client.playlists.removeItems('id', ['spotify:track:id']);
      */
-    async removeItems(id: string, items: SpotifyURI[], snapshotID?: string): Promise<string | null> {
+    async removeItems(id: string, items: SpotifyURI[], snapshotID?: string, requestOptions?: RequestOptions): Promise<string | null> {
+        if(requestOptions) return this.client.withOptions(requestOptions).playlists.removeItems(id, items, snapshotID);
 
         try{
             const opts = { snapshot_id: snapshotID };
             Object.keys(opts).forEach(x => !opts[x] ? delete opts[x] : null);
 
-            return (await this.fetch(`/playlists/${id}/tracks`, {
+            const snapshot = (await this.fetch(`/playlists/${id}/tracks`, {
                 method: 'DELETE',
                 headers: {
                     "Content-Type": "application/json"
@@ -299,8 +312,11 @@ export default class PlaylistManager extends BaseManager{
                     tracks: items
                 } as RawObject
             })).snapshot_id;
+
+            this.client.cache.remove('playlists', id);
+            return snapshot;
         }catch(e){
-            return handleError(e) || null;
+            return handleError(e, this.client.requestOptions) || null;
         }
 
     }
@@ -310,9 +326,11 @@ export default class PlaylistManager extends BaseManager{
      * 
      * @param id ID of the spotify playlist
      * @param image Image data url of image/jpeg to upload!
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example await client.playlists.uploadImage('id', imageDataUri); // Make sure the URI isn't prepended by 'data:image/jpeg;base64,'
      */
-    async uploadImage(id: string, image: string): Promise<boolean> {
+    async uploadImage(id: string, image: string, requestOptions?: RequestOptions): Promise<boolean> {
+        if(requestOptions) return this.client.withOptions(requestOptions).playlists.uploadImage(id, image);
 
         try{
             await this.fetch(`/playlists/${id}/images`, {
@@ -323,9 +341,10 @@ export default class PlaylistManager extends BaseManager{
                 body: image as any
             });
 
+            this.client.cache.remove('playlists', id);
             return true;
         }catch(e){
-            return handleError(e) || false;
+            return handleError(e, this.client.requestOptions) || false;
         }
 
     }
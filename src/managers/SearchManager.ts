@@ -1,5 +1,5 @@
 import Client from '../Client';
-import { Paging, SearchOptions, SpotifyTypes } from '../Types';
+import { Paging, RequestOptions, SearchOptions, SpotifyTypes } from '../Types';
 
 import Album from '../structures/Album';
 import Artist from '../structures/Artist';
@@ -8,13 +8,14 @@ import Playlist from '../structures/Playlist';
 import Show from '../structures/Show';
 import Track from '../structures/Track';
 import { handleError } from '../Errors';
+import { createPaging } from '../utils/Paging';
 
 const defaultTypes = ['episode', 'playlist', 'show', 'track', 'album', 'artist'];
 
 /**
  * The function type returned by client.search
  */
-export type SearchMethod = (query: string, options: SearchOptions) => Promise<Search | null>;
+export type SearchMethod = (query: string, options?: SearchOptions, requestOptions?: RequestOptions) => Promise<Search | null>;
 
 /**
  * Object structure returned by client.search
@@ -39,47 +40,29 @@ export default function SearchManager(client: Client): SearchMethod {
     async function search(query: string, options: SearchOptions = {
         type: defaultTypes.join(',') as SpotifyTypes,
         market: 'US'
-    }): Promise<Search | null> {
+    }, requestOptions?: RequestOptions): Promise<Search | null> {
+        if(requestOptions) return client.withOptions(requestOptions).search(query, options);
+
         try{
 
             options.q = query;
             options.type = (Array.isArray(options.type) ? options.type.join(',') : (options.type || defaultTypes.join(','))) as SpotifyTypes;
-            const data = await client.util.fetch('/search', { params: options });
+            const data = await client.util.fetch('/search', { params: options, manager: 'SearchManager' });
 
             return {
-                get shows(){ return makePaging(data.shows, Show, client) },
-                get tracks(){ return makePaging(data.tracks, Track, client) },
-                get albums(){ return makePaging(data.albums, Album, client) },
-                get artists(){ return makePaging(data.artists, Artist, client) },
-                get episodes(){ return makePaging(data.episodes, Episode, client) },
-                get playlists(){ return makePaging(data.playlists, Playlist, client) }
+                get shows(){ return createPaging(data.shows, client, x => new Show(x, client), 'shows', { manager: 'SearchManager' }) },
+                get tracks(){ return createPaging(data.tracks, client, x => new Track(x, client), 'tracks', { manager: 'SearchManager' }) },
+                get albums(){ return createPaging(data.albums, client, x => new Album(x, client), 'albums', { manager: 'SearchManager' }) },
+                get artists(){ return createPaging(data.artists, client, x => new Artist(x, client), 'artists', { manager: 'SearchManager' }) },
+                get episodes(){ return createPaging(data.episodes, client, x => new Episode(x, client), 'episodes', { manager: 'SearchManager' }) },
+                get playlists(){ return createPaging(data.playlists, client, x => new Playlist(x, client), 'playlists', { manager: 'SearchManager' }) }
             } 
 
         }catch(e){
-            return handleError(e);
+            return handleError(e, client.requestOptions);
         }
     }
 
     return search;
 
-}
-
-function makePaging(
-    data, 
-    type, 
-    client: Client
-): Paging<any> {
-
-    return data ? {
-        limit: data.limit,
-        offset: data.offset,
-        total: data.total,
-        items: data.items.map(x => new type(x, client))
-    } : {
-        limit: 0,
-        offset: 0,
-        total: 0,
-        items: []
-    }
-    
 }
\ No newline at end of file
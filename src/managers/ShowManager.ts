@@ -1,6 +1,10 @@
+import Client from "../Client";
 import Show from "../structures/Show";
-import { handleError, UnexpectedError } from "../Errors";
-import { GetMultipleOptions, Paging, PagingOptions, RawObject, SearchOptions } from "../Types";
+import { handleError } from "../Errors";
+import Batcher, { createBatcher } from "../utils/Batcher";
+import { mapChunks } from "../utils/Chunks";
+import { createPaging, emptyPaging } from "../utils/Paging";
+import { GetMultipleOptions, Paging, PagingOptions, RawObject, RequestOptions, SearchOptions } from "../Types";
 import BaseManager from "./BaseManager";
 import Episode from "../structures/Episode";
 
@@ -9,16 +13,31 @@ import Episode from "../structures/Episode";
  */
 export default class ShowManager extends BaseManager{
 
+    readonly batcher!: Batcher<Show> | null;
+
+    /**
+     * A class which manages the shows api!
+     * 
+     * @param client Your spotify client
+     * @example const shows = new ShowManager(client);
+     */
+    constructor(client: Client){
+        super(client);
+        Object.defineProperty(this, 'batcher', { value: createBatcher(client, 50, (ids, market) => this.getMultiple({ ids, market })) });
+    }
+
     /**
      * Search shows!
      * 
      * @param query Your query to search
      * @param options Basic SearchOptions but no `type` field should be provided!
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example await client.shows.search('some query');
      */
     async search(query: string, options: Omit<SearchOptions, 'type'> = {
         market: 'US'
-    }): Promise<Paging<Show>> {
+    }, requestOptions?: RequestOptions): Promise<Paging<Show>> {
+        if(requestOptions) return this.client.withOptions(requestOptions).shows.search(query, options);
 
         try{
             const data = (await this.fetch('/search', {
@@ -29,25 +48,9 @@ export default class ShowManager extends BaseManager{
                 }
             })).shows;
 
-            const shows = data.items.map(x => new Show(x, this.client));
-
-            if(this.client.cacheOptions.cacheShows){
-                for(let i = 0; i < shows.length; i++) this.client.cache.shows.set(shows[i].id, shows[i]);
-            }
-
-            return {
-                limit: data.limit,
-                offset: data.offset,
-                total: data.total,
-                items: shows
-            };
+            return createPaging(data, this.client, x => new Show(x, this.client), 'shows', this.pagingHooks('shows', 'cacheShows'));
         }catch(e){
-            return handleError(e) || {
-                limit: 0,
-                offset: 0,
-                total: 0,
-                items: []
-            };
+            return handleError(e, this.client.requestOptions) || emptyPaging();
         }
 
     }
@@ -58,56 +61,59 @@ export default class ShowManager extends BaseManager{
      * @param id Spotify show id
      * @param force If true, will directly fetch else will search for cache first!
      * @param market The market where we need to fetch the details!
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example await client.shows.get('id');
      */
-    async get(id: string, force: boolean = !this.client.cacheOptions.cacheShows, market: string = 'US'): Promise<Show | null> {
+    async get(id: string, force: boolean = !this.client.cacheOptions.cacheShows, market: string = 'US', requestOptions?: RequestOptions): Promise<Show | null> {
+        if(requestOptions) return this.client.withOptions(requestOptions).shows.get(id, force, market);
 
         try{
             if(!force){
-                let existing = this.client.cache.shows.get(id);
+                let existing = await this.getCached('shows', id, x => new Show(x, this.client));
                 if(existing) return existing;
             }
 
+            if(this.batcher) return await this.loadBatched(this.batcher, `/shows/${id}`, id, market);
+
             const show = new Show(await this.fetch(`/shows/${id}`, {
                 params: { market }
             }), this.client);
 
-            if(this.client.cacheOptions.cacheShows) this.client.cache.shows.set(id, show);
+            if(this.client.cacheOptions.cacheShows) this.setCached('shows', show);
             return show;
         }catch(e){
-            return handleError(e);
+            return handleError(e, this.client.requestOptions);
         }
 
     }
 
     /**
-     * Get multiple shows at one fetch!
+     * Get multiple shows! Any number of ids can be provided as they are fetched in chunks of 50.
+     * The shows which were not found are returned as null!
      * 
      * @param options Basic GetMultipleOptions
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example await client.shows.getMultiple({
      *     ids: ['123456789']
      * })
      */
-     async getMultiple(options: GetMultipleOptions): Promise<Show[]> {
+     async getMultiple(options: GetMultipleOptions, requestOptions?: RequestOptions): Promise<(Show | null)[]> {
+        if(requestOptions) return this.client.withOptions(requestOptions).shows.getMultiple(options);
 
         try{
-            const def = { market: 'US', ids: [] as any };
-            Object.assign(def, options);
-
-            if(!def.ids.length  || def.ids.length > 20) throw new UnexpectedError("You must provide more than 1 and less than 20 ids to fetch multiple shows!");
-            def.ids = def.ids.join(',');
+            const market = options.market || 'US';
 
-            const shows = (await this.fetch('/shows', { 
-                params: def
-            })).shows.map(x => new Show(x, this.client));
+            const shows = await mapChunks(options.ids, 50, async chunk => (await this.fetch('/shows', {
+                params: { market, ids: chunk.join(',') }
+            })).shows.map(x => x ? new Show(x, this.client) : null) as (Show | null)[], this.client.util.concurrency);
 
             if(this.client.cacheOptions.cacheShows){
-                for(let i = 0; i < shows.length; i++) this.client.cache.shows.set(shows[i].id, shows[i]);
+                for(const show of shows) if(show) this.setCached('shows', show);
             }
 
             return shows;
         }catch(e){
-            return handleError(e) || [];
+            return handleError(e, this.client.requestOptions) || [];
         }
 
     }
@@ -117,31 +123,17 @@ export default class ShowManager extends BaseManager{
      * 
      * @param id Spotify show id
      * @param options Basic PagingOptions
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example await client.shows.getEpisodes('id');
      */
-    async getEpisodes(id: string, options: PagingOptions = { market: 'US' }): Promise<Paging<Episode>> {
+    async getEpisodes(id: string, options: PagingOptions = { market: 'US' }, requestOptions?: RequestOptions): Promise<Paging<Episode>> {
+        if(requestOptions) return this.client.withOptions(requestOptions).shows.getEpisodes(id, options);
 
         try{
             const data = (await this.fetch(`/shows/${id}/episodes`, { params: options as RawObject }));
-            const episodes = data.items.map(x => new Episode(x, this.client)) as Episode[];
-
-            if(this.client.cacheOptions.cacheShows){
-                for(let i = 0; i < episodes.length; i++) this.client.cache.episodes.set(episodes[i].id, episodes[i]);
-            }
-
-            return {
-                limit: data.limit,
-                offset: data.offset,
-                total: data.total,
-                items: episodes
-            };
+            return createPaging(data, this.client, x => new Episode(x, this.client), undefined, this.pagingHooks('episodes', 'cacheShows'));
         }catch(e){
-            return handleError(e) || {
-                limit: 0,
-                offset: 0,
-                total: 0,
-                items: []
-            };
+            return handleError(e, this.client.requestOptions) || emptyPaging();
         }
 
     }
@@ -1,6 +1,10 @@
+import Client from '../Client';
 import Track from '../structures/Track';
-import { GetMultipleOptions, Paging, SearchOptions, TrackAudioAnalysis, TrackAudioFeatures } from '../Types';
-import { handleError, UnexpectedError } from '../Errors';
+import { GetMultipleOptions, Paging, RequestOptions, SearchOptions, TrackAudioAnalysis, TrackAudioFeatures } from '../Types';
+import { handleError } from '../Errors';
+import Batcher, { createBatcher } from '../utils/Batcher';
+import { mapChunks } from '../utils/Chunks';
+import { createPaging, emptyPaging } from '../utils/Paging';
 import BaseManager from './BaseManager';
 
 /**
@@ -8,14 +12,29 @@ import BaseManager from './BaseManager';
  */
 export default class TrackManager extends BaseManager{
 
+    readonly batcher!: Batcher<Track> | null;
+
+    /**
+     * A class which manages the tracks api!
+     * 
+     * @param client Your spotify client
+     * @example const tracks = new TrackManager(client);
+     */
+    constructor(client: Client){
+        super(client);
+        Object.defineProperty(this, 'batcher', { value: createBatcher(client, 50, (ids, market) => this.getMultiple({ ids, market })) });
+    }
+
     /**
      * Search tracks!
      * 
      * @param query Your query to search
      * @param options Basic SearchOptions but no `type` field should be provided!
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example await client.tracks.search('some query');
      */
-    async search(query: string, options?: Omit<SearchOptions, 'type'>): Promise<Paging<Track>> {
+    async search(query: string, options?: Omit<SearchOptions, 'type'>, requestOptions?: RequestOptions): Promise<Paging<Track>> {
+        if(requestOptions) return this.client.withOptions(requestOptions).tracks.search(query, options);
 
         try{
             const data = (await this.fetch('/search', {
@@ -26,25 +45,9 @@ export default class TrackManager extends BaseManager{
                 }
             })).tracks;
             
-            const tracks = data.items.map(x => new Track(x, this.client));;
-
-            if(this.client.cacheOptions.cacheTracks){
-                for(let i = 0; i < tracks.length; i++) this.client.cache.tracks.set(tracks[i].id, tracks[i]);
-            }
-
-            return {
-                limit: data.limit,
-                offset: data.offset,
-                total: data.total,
-                items: tracks
-            };
+            return createPaging(data, this.client, x => new Track(x, this.client), 'tracks', this.pagingHooks('tracks', 'cacheTracks'));
         }catch(e){
-            return handleError(e) || {
-                limit: 0,
-                offset: 0,
-                total: 0,
-                items: []
-            };
+            return handleError(e, this.client.requestOptions) || emptyPaging();
         }
 
     }
@@ -55,55 +58,59 @@ export default class TrackManager extends BaseManager{
      * @param id Spotify track id
      * @param force If true, will directly fetch else will search for cache first!
      * @param market The market where the data needs to be fetched from
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example await client.tracks.get('id');
      */
-    async get(id: string, force: boolean = !this.client.cacheOptions.cacheTracks, market: string = "US"): Promise<Track | null> {
+    async get(id: string, force: boolean = !this.client.cacheOptions.cacheTracks, market: string = "US", requestOptions?: RequestOptions): Promise<Track | null> {
+        if(requestOptions) return this.client.withOptions(requestOptions).tracks.get(id, force, market);
+
         
         try{
             if(!force){
-                let exisiting = this.client.cache.tracks.get(id);
+                let exisiting = await this.getCached('tracks', id, x => new Track(x, this.client));
                 if(exisiting) return exisiting;
             }
 
+            if(this.batcher) return await this.loadBatched(this.batcher, `/tracks/${id}`, id, market);
+
             const track = new Track(await this.fetch(`/tracks/${id}`, {
                 params: { market }
             }), this.client) as Track;
-            if(this.client.cacheOptions.cacheTracks) this.client.cache.tracks.set(track.id, track);
+            if(this.client.cacheOptions.cacheTracks) this.setCached('tracks', track);
             return track;
         }catch(e){
-            return handleError(e);
+            return handleError(e, this.client.requestOptions);
         }
 
     }
 
     /**
-     * Get multiple tracks at one fetch!
+     * Get multiple tracks! Any number of ids can be provided as they are fetched in chunks of 50.
+     * The tracks which were not found are returned as null!
      * 
      * @param options Basic GetMultipleOptions
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example await client.tracks.getMultiple({
      *     ids: ['123456789']
      * })
      */
-    async getMultiple(options: GetMultipleOptions): Promise<Track[]> {
+    async getMultiple(options: GetMultipleOptions, requestOptions?: RequestOptions): Promise<(Track | null)[]> {
+        if(requestOptions) return this.client.withOptions(requestOptions).tracks.getMultiple(options);
 
         try{
-            const def = { market: 'US', ids: [] as any };
-            Object.assign(def, options);
+            const market = options.market || 'US';
 
-            if(!def.ids.length  || def.ids.length > 20) throw new UnexpectedError("You must provide more than 1 and less than 20 ids to fetch multiple tracks!");
-            def.ids = def.ids.join(',');
-
-            const tracks = (await this.fetch('/tracks', { 
-                params: def
-            })).tracks.map(x => new Track(x, this.client));
+            const tracks = await mapChunks(options.ids, 50, async chunk => (await this.fetch('/tracks', {
+                params: { market, ids: chunk.join(',') }
+            })).tracks.map(x => x ? new Track(x, this.client) : null) as (Track | null)[], this.client.util.concurrency);
 
             if(this.client.cacheOptions.cacheTracks){
-                for(let i = 0; i < tracks.length; i++) this.client.cache.tracks.set(tracks[i].id, tracks[i]);
+                for(const track of tracks) if(track) this.setCached('tracks', track);
             }
 
             return tracks;
         }catch(e){
-            return handleError(e) || [];
+            return handleError(e, this.client.requestOptions) || [];
         }
 
     }
@@ -112,13 +119,16 @@ export default class TrackManager extends BaseManager{
      * Returns the audio features of the spotify track
      * 
      * @param id The id of the spotify track
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example await client.tracks.getAudioFeatures('id');
      */
-    async getAudioFeatures(id: string): Promise<TrackAudioFeatures | null> {
+    async getAudioFeatures(id: string, requestOptions?: RequestOptions): Promise<TrackAudioFeatures | null> {
+        if(requestOptions) return this.client.withOptions(requestOptions).tracks.getAudioFeatures(id);
+
         try{
             return await this.fetch(`/audio-features/${id}`);
         }catch(e){
-            return handleError(e);
+            return handleError(e, this.client.requestOptions);
         }
     }
 
@@ -126,13 +136,16 @@ export default class TrackManager extends BaseManager{
      * Returns the audio analysis of the spotify track
      * 
      * @param id The id of the spotify track
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example await client.tracks.getAudioAnalysis('id');
      */
-    async getAudioAnalysis(id: string): Promise<TrackAudioAnalysis | null> {
+    async getAudioAnalysis(id: string, requestOptions?: RequestOptions): Promise<TrackAudioAnalysis | null> {
+        if(requestOptions) return this.client.withOptions(requestOptions).tracks.getAudioAnalysis(id);
+
         try{
             return await this.fetch(`/audio-analysis/${id}`);
         }catch(e){
-            return handleError(e);
+            return handleError(e, this.client.requestOptions);
         }
     }
 
@@ -1,8 +1,10 @@
 import Playlist from '../structures/Playlist';
 import User from '../structures/User';
 import BaseManager from './BaseManager';
-import { Paging, RawObject } from '../Types';
+import { IDsWithOptions, Paging, RawObject, RequestOptions } from '../Types';
+import { splitRequestOptions } from '../Util';
 import { handleError } from '../Errors';
+import { createPaging, emptyPaging } from '../utils/Paging';
 
 /**
  * A class which manages the users api
@@ -14,21 +16,23 @@ export default class UserManager extends BaseManager{
      * 
      * @param id Spotify user id
      * @param force If true, will directly fetch else will search for cache first!
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example await client.users.get('id');
      */
-    async get(id: string, force: boolean = !this.client.cacheOptions.cacheUsers): Promise<User | null> {
-
-        if(!force){
-            let existing = this.client.cache.users.get(id);
-            if(existing) return existing;
-        }
+    async get(id: string, force: boolean = !this.client.cacheOptions.cacheUsers, requestOptions?: RequestOptions): Promise<User | null> {
+        if(requestOptions) return this.client.withOptions(requestOptions).users.get(id, force);
 
         try{
+            if(!force){
+                let existing = await this.getCached('users', id, x => new User(x, this.client));
+                if(existing) return existing;
+            }
+
             const user = new User(await this.fetch(`/users/${id}`), this.client);
-            if(this.client.cacheOptions.cacheUsers) this.client.cache.users.set(user.id, user);
+            if(this.client.cacheOptions.cacheUsers) this.setCached('users', user);
             return user;
         }catch(e){
-            return handleError(e);
+            return handleError(e, this.client.requestOptions);
         }
 
     }
@@ -38,6 +42,7 @@ export default class UserManager extends BaseManager{
      * 
      * @param id The spotify user id
      * @param options Options containing the offset and limit!
+     * @param requestOptions Request options of the call such as a signal or a timeout
      * @example await client.users.getPlaylists('id', {
      *     limit: 5,
      *     offset: 2
@@ -46,29 +51,15 @@ export default class UserManager extends BaseManager{
     async getPlaylists(id: string, options?: {
         limit?: number;
         offset?: number;
-    }): Promise<Paging<Playlist>> {
+    }, requestOptions?: RequestOptions): Promise<Paging<Playlist>> {
+        if(requestOptions) return this.client.withOptions(requestOptions).users.getPlaylists(id, options);
+
         
         try{
             const data = (await this.fetch(`/users/${id}/playlists`, { params: options as RawObject }))
-            const playlists = data.items.map(x => new Playlist(x, this.client)) as Playlist[];
-
-            if(this.client.cacheOptions.cachePlaylists){
-                for(let i = 0; i < playlists.length; i++) this.client.cache.playlists.set(playlists[i].id, playlists[i]);
-            }
-
-            return {
-                limit: data.limit,
-                offset: data.offset,
-                total: data.total,
-                items: playlists
-            };
+            return createPaging(data, this.client, x => new Playlist(x, this.client), undefined, this.pagingHooks('playlists', 'cachePlaylists'));
         }catch(e){
-            return handleError(e) || {
-                limit: 0,
-                offset: 0,
-                total: 0,
-                items: []
-            };
+            return handleError(e, this.client.requestOptions) || emptyPaging();
         }
 
     }
@@ -76,30 +67,39 @@ export default class UserManager extends BaseManager{
     /**
      * Follow one or many users!
      * 
-     * @param ids ID of the spotify users
+     * @param args ID of the spotify users, optionally followed by the request options of the call
      * @example await client.users.follow('id', 'id2');
      */
-    async follow(...ids: string[]): Promise<boolean> {
+    async follow(...args: IDsWithOptions): Promise<boolean> {
+        const [ids, requestOptions] = splitRequestOptions(args);
+        if(requestOptions) return this.client.withOptions(requestOptions).users.follow(...ids);
+
         return await this.client.user.followUsers(...ids);
     }
 
     /**
      * Unfollow one or many users!
      * 
-     * @param ids ID of the spotify users
+     * @param args ID of the spotify users, optionally followed by the request options of the call
      * @example await client.users.unfollow('id', 'id2');
      */
-    async unfollow(...ids: string[]): Promise<boolean> {
+    async unfollow(...args: IDsWithOptions): Promise<boolean> {
+        const [ids, requestOptions] = splitRequestOptions(args);
+        if(requestOptions) return this.client.withOptions(requestOptions).users.unfollow(...ids);
+
         return await this.client.user.unfollowUsers(...ids);
     }
 
     /**
      * Verify if the current user follows one or many users
      * 
-     * @param ids ID of the spotify users
+     * @param args ID of the spotify users, optionally followed by the request options of the call
      * @example const [followsFirstUser, followsSecondUser] = await client.users.follows('id1', 'id2');
      */
-    async follows(...ids: string[]): Promise<boolean[]> {
+    async follows(...args: IDsWithOptions): Promise<boolean[]> {
+        const [ids, requestOptions] = splitRequestOptions(args);
+        if(requestOptions) return this.client.withOptions(requestOptions).users.follows(...ids);
+
         return await this.client.user.followsUsers(...ids);
     }
 
@@ -2,6 +2,7 @@ import Client from '../Client';
 import Track from './Track';
 import { Image, Restriction, Copyright, RawObject, SpotifyTypes, SpotifyURI, PagingOptions, Paging, ExternalIDs } from '../Types';
 import Artist from './Artist';
+import { createPaging } from '../utils/Paging';
 
 /**
  * Spotify api's album object!
@@ -86,17 +87,7 @@ class Album {
      * @readonly
      */
     get tracks(): Paging<Track> {
-        return this.data.tracks ? {
-            limit: this.data.tracks.limit,
-            total: this.data.tracks.total,
-            offset: this.data.tracks.offset,
-            items: this.data.tracks.items.map(x => new Track(x, this.client))
-        } : {
-            limit: 0,
-            total: 0,
-            offset: 0,
-            items: []
-        };
+        return createPaging(this.data.tracks, this.client, x => new Track(x, this.client));
     }
 
     /**
@@ -5,6 +5,7 @@ import { Image, Paging, PagingOptions, PlaylistTracksRef, RawObject, SpotifyType
 import Client from '../Client';
 import { CreatePlaylist } from '../UserClient';
 import { ReorderOptions } from '../managers/PlaylistManager';
+import { createPaging } from '../utils/Paging';
 
 /**
  * Return object by PlaylistTrack function!
@@ -101,12 +102,7 @@ export function PlaylistTrack(data, client: Client): PlaylistTrackType {
      * @readonly
      */
     get tracks(): Paging<PlaylistTrackType> | PlaylistTracksRef {
-        return this.data.tracks.items ? {
-            limit: this.data.tracks.limit,
-            total: this.data.tracks.total,
-            offset: this.data.tracks.offset,
-            items: this.data.tracks.items.map(x => PlaylistTrack(x, this.client))
-        } : this.data.tracks;
+        return this.data.tracks.items ? createPaging(this.data.tracks, this.client, x => PlaylistTrack(x, this.client)) : this.data.tracks;
     };
 
     /**
@@ -215,7 +211,9 @@ export function PlaylistTrack(data, client: Client): PlaylistTrackType {
      * @example await playlists.add(['spotify:track:id']);
      */
     async add(items: SpotifyURI[], options?: { position?: number }): Promise<string | null> {
-        return await this.client.playlists.addItems(this.id, items, options);
+        const snapshot = await this.client.playlists.addItems(this.id, items, options);
+        if(snapshot) this.snapshotID = snapshot;
+        return snapshot;
     }
 
     /**
@@ -227,7 +225,9 @@ export function PlaylistTrack(data, client: Client): PlaylistTrackType {
      * })
      */
     async reorder(items: SpotifyURI[], options?: ReorderOptions): Promise<string | null> {
-        return await this.client.playlists.reorderItems(this.id, items, options);
+        const snapshot = await this.client.playlists.reorderItems(this.id, items, options);
+        if(snapshot) this.snapshotID = snapshot;
+        return snapshot;
     }
 
     /**
@@ -238,7 +238,9 @@ export function PlaylistTrack(data, client: Client): PlaylistTrackType {
      * @example await playlist.remove(['spotify:track:id']);
      */
     async remove(items: SpotifyURI[], snapshotID?: string): Promise<string | null> {
-        return await this.client.playlists.removeItems(this.id, items, snapshotID);
+        const snapshot = await this.client.playlists.removeItems(this.id, items, snapshotID);
+        if(snapshot) this.snapshotID = snapshot;
+        return snapshot;
     }
 
     /**
@@ -0,0 +1,138 @@
+import Client from '../Client';
+
+/**
+ * Options for the batcher!
+ */
+export interface BatcherOptions{
+    window?: number;
+}
+
+/**
+ * A function which fetches many items by their ids in the same market and resolves them in the order of the ids!
+ */
+export type BatchFetcher<T> = (ids: string[], market: string) => Promise<(T | null)[]>;
+
+/**
+ * A pending batch of ids of a market!
+ */
+interface Batch<T>{
+    ids: string[];
+    loads: Map<string, Promise<T | null>>;
+    resolvers: Map<string, [(item: T | null) => void, (error: any) => void]>;
+    timer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Collects the single item loads issued within a short window and resolves them using a single multiple items request!
+ */
+export default class Batcher<T>{
+
+    readonly fetcher!: BatchFetcher<T>;
+    maxSize: number;
+    window: number;
+
+    private batches: Map<string, Batch<T>>;
+
+    /**
+     * Collects the single item loads issued within a short window and resolves them using a single multiple items request!
+     * 
+     * @param fetcher A function which fetches many items by their ids
+     * @param maxSize Maximum number of ids the endpoint accepts in a request
+     * @param options Options such as the window in milliseconds
+     * @example const batcher = new Batcher((ids, market) => client.tracks.getMultiple({ ids, market }), 50);
+     */
+    constructor(fetcher: BatchFetcher<T>, maxSize: number, options: BatcherOptions = {}){
+        Object.defineProperty(this, 'fetcher', { value: fetcher });
+        this.maxSize = maxSize;
+        this.window = options.window ?? 0;
+        this.batches = new Map();
+    }
+
+    /**
+     * Loads an item by its id. The loads of the same market are merged into one request!
+     * 
+     * @param id The id of the item
+     * @param market The market where the data needs to be fetched from
+     * @example const track = await batcher.load('id', 'US');
+     */
+    load(id: string, market: string): Promise<T | null> {
+
+        let batch = this.batches.get(market);
+
+        if(!batch){
+            batch = { ids: [], loads: new Map(), resolvers: new Map() };
+            this.batches.set(market, batch);
+            batch.timer = setTimeout(() => this.dispatch(market), this.window);
+        }
+
+        const existing = batch.loads.get(id);
+        if(existing) return existing;
+
+        const current = batch;
+        const load = new Promise<T | null>((resolve, reject) => current.resolvers.set(id, [resolve, reject]));
+
+        batch.ids.push(id);
+        batch.loads.set(id, load);
+        if(batch.ids.length >= this.maxSize) this.dispatch(market);
+
+        return load;
+
+    }
+
+    /**
+     * Sends the pending batch of the market and resolves its loads!
+     * 
+     * @param market The market of the batch
+     */
+    private async dispatch(market: string): Promise<void> {
+
+        const batch = this.batches.get(market);
+        if(!batch) return;
+
+        this.batches.delete(market);
+        if(batch.timer) clearTimeout(batch.timer);
+
+        await this.resolve(batch, batch.ids, market);
+
+    }
+
+    /**
+     * Fetches the ids of a batch and resolves their loads. When spotify rejects the ids as invalid, they are split in halves
+     * until the invalid ids are found so that only their loads are rejected!
+     * 
+     * @param batch The batch of the ids
+     * @param ids The ids to fetch
+     * @param market The market of the batch
+     */
+    private async resolve(batch: Batch<T>, ids: string[], market: string): Promise<void> {
+
+        try{
+            const items = await this.fetcher(ids, market);
+            for(let i = 0; i < ids.length; i++) batch.resolvers.get(ids[i])?.[0](items[i] ?? null);
+        }catch(e){
+            if(ids.length > 1 && (e?.status == 400 || e?.status == 404)){
+                const middle = Math.ceil(ids.length / 2);
+                await Promise.all([this.resolve(batch, ids.slice(0, middle), market), this.resolve(batch, ids.slice(middle), market)]);
+                return;
+            }
+
+            for(const id of ids) batch.resolvers.get(id)?.[1](e);
+        }
+
+    }
+
+}
+
+/**
+ * Returns a batcher for a manager if batching has been enabled in the client options else null!
+ *
+ * @param client Your spotify client
+ * @param maxSize Maximum number of ids the endpoint accepts in a request
+ * @param fetcher A function which fetches many items by their ids
+ * @example const batcher = createBatcher(client, 50, (ids, market) => this.getMultiple({ ids, market }));
+ */
+export function createBatcher<T>(client: Client, maxSize: number, fetcher: BatchFetcher<T>): Batcher<T> | null {
+    const batch = client.cacheOptions.batch;
+    if(!batch) return null;
+    return new Batcher(fetcher, maxSize, typeof batch == 'object' ? batch : {});
+}
\ No newline at end of file
@@ -0,0 +1,193 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+
+/**
+ * The interface to implement an external cache backend such as redis. The values are the raw json objects of the spotify api!
+ * The adapter is used only for the caches which have been enabled by their client option such as cacheTracks.
+ */
+export interface CacheAdapter{
+    get(key: string): Promise<any | null>;
+    set(key: string, value: any, ttl?: number): Promise<void>;
+    delete(key: string): Promise<void>;
+    clear(): Promise<void>;
+}
+
+/**
+ * A value stored by the cache adapters with its expiry!
+ */
+interface StoredValue{
+    value: any;
+    expiresAt: number | null;
+}
+
+/**
+ * A cache adapter which keeps the values in the memory!
+ */
+export class MemoryCacheAdapter implements CacheAdapter{
+
+    readonly values: Map<string, StoredValue>;
+
+    /**
+     * A cache adapter which keeps the values in the memory!
+     * @example const adapter = new MemoryCacheAdapter();
+     */
+    constructor(){
+        this.values = new Map();
+    }
+
+    /**
+     * Returns the value if it has not expired!
+     *
+     * @param key The key of the value
+     * @example await adapter.get('tracks:id');
+     */
+    async get(key: string): Promise<any | null> {
+        const stored = this.values.get(key);
+        if(!stored) return null;
+
+        if(stored.expiresAt != null && Date.now() >= stored.expiresAt){
+            this.values.delete(key);
+            return null;
+        }
+
+        return stored.value;
+    }
+
+    /**
+     * Saves a value!
+     *
+     * @param key The key of the value
+     * @param value The raw json object
+     * @param ttl Milliseconds after which the value expires
+     * @example await adapter.set('tracks:id', data, 60000);
+     */
+    async set(key: string, value: any, ttl?: number): Promise<void> {
+        this.values.set(key, { value, expiresAt: ttl ? Date.now() + ttl : null });
+    }
+
+    /**
+     * Deletes a value!
+     *
+     * @param key The key of the value
+     * @example await adapter.delete('tracks:id');
+     */
+    async delete(key: string): Promise<void> {
+        this.values.delete(key);
+    }
+
+    /**
+     * Deletes all the values!
+     * @example await adapter.clear();
+     */
+    async clear(): Promise<void> {
+        this.values.clear();
+    }
+
+}
+
+/**
+ * A cache adapter which keeps every value in its own json file of a directory so that it can be shared by many processes!
+ */
+export class FileCacheAdapter implements CacheAdapter{
+
+    path: string;
+
+    /**
+     * A cache adapter which keeps every value in its own json file of a directory so that it can be shared by many processes!
+     *
+     * @param path Path of the directory
+     * @example const adapter = new FileCacheAdapter('./.spotify-cache');
+     */
+    constructor(path: string){
+        this.path = path;
+    }
+
+    /**
+     * Returns the value if it has not expired!
+     *
+     * @param key The key of the value
+     * @example await adapter.get('tracks:id');
+     */
+    async get(key: string): Promise<any | null> {
+        let stored: StoredValue;
+
+        try{
+            stored = JSON.parse(await fs.readFile(this.file(key), 'utf-8'));
+        }catch(e){
+            if(e.code == 'ENOENT' || e instanceof SyntaxError) return null;
+            throw e;
+        }
+
+        if(stored.expiresAt != null && Date.now() >= stored.expiresAt){
+            await this.delete(key);
+            return null;
+        }
+
+        return stored.value;
+    }
+
+    /**
+     * Saves a value. Writes a temporary file first so that other processes never read a half written file!
+     * The temporary file is deleted if the value could not be saved.
+     *
+     * @param key The key of the value
+     * @param value The raw json object
+     * @param ttl Milliseconds after which the value expires
+     * @example await adapter.set('tracks:id', data, 60000);
+     */
+    async set(key: string, value: any, ttl?: number): Promise<void> {
+        const file = this.file(key);
+        const temp = `${file}.${process.pid}.${Math.random().toString(36).slice(2)}.tmp`;
+
+        await fs.mkdir(this.path, { recursive: true });
+
+        try{
+            await fs.writeFile(temp, JSON.stringify({ value, expiresAt: ttl ? Date.now() + ttl : null }));
+            await fs.rename(temp, file);
+        }catch(e){
+            await fs.unlink(temp).catch(() => {});
+            throw e;
+        }
+    }
+
+    /**
+     * Deletes a value!
+     *
+     * @param key The key of the value
+     * @example await adapter.delete('tracks:id');
+     */
+    async delete(key: string): Promise<void> {
+        try{
+            await fs.unlink(this.file(key));
+        }catch(e){
+            if(e.code != 'ENOENT') throw e;
+        }
+    }
+
+    /**
+     * Deletes all the values!
+     * @example await adapter.clear();
+     */
+    async clear(): Promise<void> {
+        let files: string[];
+
+        try{
+            files = await fs.readdir(this.path);
+        }catch(e){
+            if(e.code == 'ENOENT') return;
+            throw e;
+        }
+
+        await Promise.all(files.filter(x => x.endsWith('.json')).map(x => fs.unlink(join(this.path, x)).catch(() => {})));
+    }
+
+    /**
+     * Returns the path of the file of a key!
+     *
+     * @param key The key of the value
+     */
+    private file(key: string): string {
+        return join(this.path, `${encodeURIComponent(key)}.json`);
+    }
+
+}
\ No newline at end of file
@@ -0,0 +1,201 @@
+import Collection from './Collection';
+
+/**
+ * Options for the cache collection!
+ */
+export interface CacheCollectionOptions{
+    ttl?: number;
+    max?: number;
+}
+
+/**
+ * A collection whose entries expire after a ttl and which evicts the least recently used entries when it grows beyond the max size!
+ */
+export default class CacheCollection<T> extends Collection<T>{
+
+    ttl: number | null;
+    max: number | null;
+
+    private expiries!: Map<string, number>;
+    private nextPrune!: number;
+
+    /**
+     * A collection whose entries expire after a ttl and which evicts the least recently used entries when it grows beyond the max size!
+     *
+     * @param options Options such as the ttl of the entries in milliseconds and the max size
+     * @example const tracks = new CacheCollection<Track>({ ttl: 3600000, max: 1000 });
+     */
+    constructor(options: CacheCollectionOptions = {}){
+        super();
+        this.ttl = options.ttl || null;
+        this.max = options.max || null;
+        Object.defineProperty(this, 'expiries', { value: new Map() });
+        Object.defineProperty(this, 'nextPrune', { value: 0, writable: true });
+    }
+
+    /**
+     * Returns the number of the entries which have not expired!
+     * @readonly
+     */
+    get size(): number {
+        this.prune();
+        return super.size;
+    }
+
+    /**
+     * Returns the entry if it has not expired and marks it as recently used!
+     *
+     * @param key The key of the entry
+     * @example col.get('id');
+     */
+    get(key: string): T | undefined {
+        if(!super.has(key)) return undefined;
+
+        if(this.expired(key)){
+            this.delete(key);
+            return undefined;
+        }
+
+        const value = super.get(key) as T;
+
+        if(this.max){
+            super.delete(key);
+            super.set(key, value);
+        }
+
+        return value;
+    }
+
+    /**
+     * Returns true if the entry exists and has not expired!
+     *
+     * @param key The key of the entry
+     * @example col.has('id');
+     */
+    has(key: string): boolean {
+        if(!super.has(key)) return false;
+
+        if(this.expired(key)){
+            this.delete(key);
+            return false;
+        }
+
+        return true;
+    }
+
+    /**
+     * Sets an entry with a fresh ttl and evicts the least recently used entries beyond the max size!
+     *
+     * @param key The key of the entry
+     * @param value The value of the entry
+     * @example col.set('id', track);
+     */
+    set(key: string, value: T): this {
+        super.delete(key);
+        super.set(key, value);
+
+        if(this.ttl){
+            this.expiries.set(key, Date.now() + this.ttl);
+            if(Date.now() >= this.nextPrune) this.prune();
+        }
+
+        if(this.max){
+            for(const oldest of super.keys()){
+                if(super.size <= this.max) break;
+                this.delete(oldest);
+            }
+        }
+
+        return this;
+    }
+
+    /**
+     * Deletes an entry!
+     *
+     * @param key The key of the entry
+     * @example col.delete('id');
+     */
+    delete(key: string): boolean {
+        this.expiries.delete(key);
+        return super.delete(key);
+    }
+
+    /**
+     * Deletes all the entries!
+     * @example col.clear();
+     */
+    clear(): void {
+        this.expiries.clear();
+        super.clear();
+    }
+
+    /**
+     * Deletes all the expired entries. Called automatically while setting and iterating the entries!
+     * @example col.prune();
+     */
+    prune(): void {
+        if(!this.ttl || !this.expiries.size) return;
+
+        const now = Date.now();
+        for(const [key, expiresAt] of this.expiries) if(now >= expiresAt) this.delete(key);
+        this.nextPrune = now + this.ttl;
+    }
+
+    /**
+     * Returns an iterator of the keys which have not expired!
+     * @example [...col.keys()];
+     */
+    keys(): IterableIterator<string> {
+        this.prune();
+        return super.keys();
+    }
+
+    /**
+     * Returns an iterator of the values which have not expired!
+     * @example [...col.values()];
+     */
+    values(): IterableIterator<T> {
+        this.prune();
+        return super.values();
+    }
+
+    /**
+     * Returns an iterator of the entries which have not expired!
+     * @example [...col.entries()];
+     */
+    entries(): IterableIterator<[string, T]> {
+        this.prune();
+        return super.entries();
+    }
+
+    /**
+     * Returns an iterator of the entries which have not expired!
+     * @example for(const [id, track] of col) console.log(id, track);
+     */
+    [Symbol.iterator](): IterableIterator<[string, T]> {
+        return this.entries();
+    }
+
+    /**
+     * Calls the function for every entry which has not expired!
+     *
+     * @param fn The function to call
+     * @param thisArg Value to use as this while calling the function
+     * @example col.forEach(track => console.log(track));
+     */
+    forEach(fn: (value: T, key: string, map: Map<string, T>) => void, thisArg?: any): void {
+        this.prune();
+        super.forEach(fn, thisArg);
+    }
+
+    /**
+     * Returns true if the entry has expired!
+     *
+     * @param key The key of the entry
+     */
+    private expired(key: string): boolean {
+        const expiresAt = this.expiries.get(key);
+        return expiresAt != undefined && Date.now() >= expiresAt;
+    }
+
+}
\ No newline at end of file
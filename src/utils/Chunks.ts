@@ -0,0 +1,57 @@
+/**
+ * Splits the array into chunks of the particular size!
+ *
+ * @param items The array to split
+ * @param size Maximum size of a chunk
+ * @example chunk(['a', 'b', 'c'], 2); // [['a', 'b'], ['c']]
+ */
+export function chunk<T>(items: T[], size: number): T[][] {
+    const chunks: T[][] = [];
+    for(let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+    return chunks;
+}
+
+/**
+ * Runs the function for every chunk of the array with a bounded concurrency and joins the results in the order of the input!
+ * A concurrency below 1 runs the chunks one at a time.
+ *
+ * @param items The array to split
+ * @param size Maximum size of a chunk
+ * @param fn Function which resolves the results of a chunk
+ * @param concurrency Maximum number of chunks to run at the same time
+ * @example const tracks = await mapChunks(ids, 50, ids => fetchTracks(ids), 4);
+ */
+export async function mapChunks<T, R>(items: T[], size: number, fn: (chunk: T[]) => Promise<R[]>, concurrency: number = 4): Promise<R[]> {
+
+    const chunks = chunk(items, size);
+    const results: R[][] = new Array(chunks.length);
+    let next = 0;
+
+    const worker = async () => {
+        while(next < chunks.length){
+            const i = next++;
+            results[i] = await fn(chunks[i]);
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(Math.max(1, concurrency || 1), chunks.length) }, worker));
+    return ([] as R[]).concat(...results);
+
+}
+
+
+/**
+ * Runs the function for every chunk of the array with a bounded concurrency!
+ *
+ * @param items The array to split
+ * @param size Maximum size of a chunk
+ * @param fn Function to run for a chunk
+ * @param concurrency Maximum number of chunks to run at the same time
+ * @example await forEachChunk(ids, 50, ids => saveTracks(ids), 4);
+ */
+export async function forEachChunk<T>(items: T[], size: number, fn: (chunk: T[]) => Promise<unknown>, concurrency: number = 4): Promise<void> {
+    await mapChunks(items, size, async chunk => {
+        await fn(chunk);
+        return [];
+    }, concurrency);
+}
\ No newline at end of file
@@ -0,0 +1,240 @@
+import Client, { ClientOptions } from '../Client';
+import CacheCollection, { CacheCollectionOptions } from './CacheCollection';
+import { Category } from '../Types';
+import User from '../structures/User';
+import Playlist from '../structures/Playlist';
+import Episode from '../structures/Episode';
+import Show from '../structures/Show';
+import Track from '../structures/Track';
+import Album from '../structures/Album';
+import Artist from '../structures/Artist';
+
+/**
+ * Names of the caches of the client!
+ */
+export type CacheName = 'users' | 'playlists' | 'episodes' | 'shows' | 'categories' | 'tracks' | 'albums' | 'artists';
+
+/**
+ * Options such as the ttl and the max size for each cache of the client!
+ */
+export type CacheCollectionsOptions = { [K in CacheName]?: CacheCollectionOptions };
+
+/**
+ * A json snapshot of the caches containing the raw spotify api objects of each cache!
+ */
+export interface CacheSnapshot{
+    version: number;
+    createdAt: number;
+    items: { [K in CacheName]?: any[] };
+}
+
+/**
+ * The names of all the caches in the order they are exported!
+ */
+const CACHE_NAMES: CacheName[] = ['users', 'playlists', 'episodes', 'shows', 'categories', 'tracks', 'albums', 'artists'];
+
+/**
+ * The cache, the client option which enables it and a field only present in the full object for each spotify object type!
+ */
+const NORMALIZED_TYPES: Record<string, [CacheName, keyof ClientOptions, string]> = {
+    user: ['users', 'cacheUsers', 'followers'],
+    playlist: ['playlists', 'cachePlaylists', 'followers'],
+    episode: ['episodes', 'cacheEpisodes', 'show'],
+    show: ['shows', 'cacheShows', 'episodes'],
+    track: ['tracks', 'cacheTracks', 'popularity'],
+    album: ['albums', 'cacheAlbums', 'popularity'],
+    artist: ['artists', 'cacheArtists', 'popularity']
+};
+
+/**
+ * The field only present in the full object for each cache!
+ */
+const FULL_FIELDS = Object.keys(NORMALIZED_TYPES).reduce((fields, type) => {
+    const [name, , fullField] = NORMALIZED_TYPES[type];
+    fields[name] = fullField;
+    return fields;
+}, {} as { [K in CacheName]?: string });
+
+/**
+ * The caches of the client!
+ */
+export default class ClientCache{
+
+    readonly client!: Client;
+
+    users: CacheCollection<User>;
+    playlists: CacheCollection<Playlist>;
+    episodes: CacheCollection<Episode>;
+    shows: CacheCollection<Show>;
+    categories: CacheCollection<Category>;
+    tracks: CacheCollection<Track>;
+    albums: CacheCollection<Album>;
+    artists: CacheCollection<Artist>;
+
+    /**
+     * The caches of the client!
+     *
+     * @param client Your spotify client
+     * @param options Options such as the ttl and the max size for each cache
+     * @example const cache = new ClientCache(client, { tracks: { max: 1000 } });
+     */
+    constructor(client: Client, options: CacheCollectionsOptions = {}){
+        Object.defineProperty(this, 'client', { value: client });
+
+        this.users = new CacheCollection(options.users);
+        this.playlists = new CacheCollection(options.playlists);
+        this.episodes = new CacheCollection(options.episodes);
+        this.shows = new CacheCollection(options.shows);
+        this.categories = new CacheCollection(options.categories);
+        this.tracks = new CacheCollection(options.tracks);
+        this.albums = new CacheCollection(options.albums);
+        this.artists = new CacheCollection(options.artists);
+    }
+
+    /**
+     * Sets the item in its cache and writes its raw object to the cache adapter of the client. A cached full object is never overwritten by a simplified one.
+     * A failing cache adapter never fails the request so the write is not awaited!
+     *
+     * @param name The name of the cache
+     * @param item The item to cache
+     * @example client.cache.add('tracks', track);
+     */
+    add<K extends CacheName>(name: K, item: ClientCache[K] extends CacheCollection<infer T> ? T : never): void {
+        const { id, data } = item as { id: string; data?: any };
+        const collection = this[name] as CacheCollection<any>;
+
+        if(!this.isFull(name, data || item)){
+            const existing = collection.get(id);
+            if(existing && existing !== item && this.isFull(name, existing.data || existing)) return;
+        }
+
+        collection.set(id, item);
+
+        const adapter = this.client.cacheAdapter;
+        if(adapter) adapter.set(`${name}:${id}`, data || item, this.client.cacheOptions.cache?.[name]?.ttl).catch(() => {});
+    }
+
+    /**
+     * Returns true if the raw object is the full object of its cache and not a simplified one which lacks some of the fields!
+     *
+     * @param name The name of the cache
+     * @param data The raw spotify api object
+     * @example if(client.cache.isFull('tracks', track.data)) console.log(track.popularity);
+     */
+    isFull(name: CacheName, data: any): boolean {
+        const fullField: string | undefined = FULL_FIELDS[name];
+        return !fullField || (!!data && typeof data == 'object' && fullField in data);
+    }
+
+    /**
+     * Merges the fields into the raw object of a cached item and rebuilds its structure.
+     * If the item is not in the memory, it is deleted from the cache adapter as it could be stale!
+     *
+     * @param name The name of the cache
+     * @param id The id of the item
+     * @param data The raw fields which have changed
+     * @example client.cache.patch('playlists', 'id', { name: 'New name' });
+     */
+    patch(name: CacheName, id: string, data: Record<string, any>): void {
+        const existing = (this[name] as CacheCollection<any>).get(id);
+        if(existing) this.add(name, this.create(name, { ...(existing.data || existing), ...data }));
+        else this.client.cacheAdapter?.delete(`${name}:${id}`).catch(() => {});
+    }
+
+    /**
+     * Deletes the items from their cache and from the cache adapter of the client!
+     *
+     * @param name The name of the cache
+     * @param ids The ids of the items
+     * @example client.cache.remove('playlists', 'id');
+     */
+    remove(name: CacheName, ...ids: string[]): void {
+        const adapter = this.client.cacheAdapter;
+
+        for(const id of ids){
+            this[name].delete(id);
+            if(adapter) adapter.delete(`${name}:${id}`).catch(() => {});
+        }
+    }
+
+    /**
+     * Walks through a raw spotify api response and adds every nested spotify object to the caches which have been enabled.
+     * A full object is never overwritten by a simplified one!
+     *
+     * @param data The raw spotify api response
+     * @example client.cache.normalize(await client.util.fetch('/search', { params: { q: 'query', type: 'track' } }));
+     */
+    normalize(data: any): void {
+        if(!data || typeof data != 'object') return;
+        if(Array.isArray(data)){
+            for(let i = 0; i < data.length; i++) this.normalize(data[i]);
+            return;
+        }
+
+        const type = NORMALIZED_TYPES[data.type];
+
+        if(type && typeof data.id == 'string' && this.client.cacheOptions[type[1]]) this.add(type[0], this.create(type[0], data));
+
+        for(const key in data) if(data[key] && typeof data[key] == 'object') this.normalize(data[key]);
+    }
+
+    /**
+     * Returns a json snapshot of the raw spotify api objects of every cache which can be saved and imported later!
+     * @example fs.writeFileSync('./cache.json', JSON.stringify(client.cache.export()));
+     */
+    export(): CacheSnapshot {
+        const snapshot: CacheSnapshot = { version: 1, createdAt: Date.now(), items: {} };
+
+        for(const name of CACHE_NAMES){
+            const items = (this[name] as CacheCollection<any>).toArray();
+            if(items.length) snapshot.items[name] = items.map(x => x.data || x);
+        }
+
+        return snapshot;
+    }
+
+    /**
+     * Rebuilds the structures of a snapshot bound to the current client and adds them to the caches!
+     *
+     * @param snapshot The snapshot returned by client.cache.export or its json string
+     * @example client.cache.import(JSON.parse(fs.readFileSync('./cache.json', 'utf-8')));
+     */
+    import(snapshot: CacheSnapshot | string): this {
+        const { items } = (typeof snapshot == 'string' ? JSON.parse(snapshot) : snapshot) as CacheSnapshot;
+
+        for(const name of CACHE_NAMES){
+            const collection = this[name] as CacheCollection<any>;
+            for(const data of items?.[name] || []) if(data?.id) collection.set(data.id, this.create(name, data));
+        }
+
+        return this;
+    }
+
+    /**
+     * Deletes the items of every cache!
+     * @example client.cache.clear();
+     */
+    clear(): void {
+        for(const name of CACHE_NAMES) this[name].clear();
+    }
+
+    /**
+     * Creates the structure of a cache from its raw object!
+     *
+     * @param name The name of the cache
+     * @param data The raw spotify api object
+     */
+    private create(name: CacheName, data: any): any {
+        switch(name){
+            case 'users': return new User(data, this.client);
+            case 'playlists': return new Playlist(data, this.client);
+            case 'episodes': return new Episode(data, this.client);
+            case 'shows': return new Show(data, this.client);
+            case 'tracks': return new Track(data, this.client);
+            case 'albums': return new Album(data, this.client);
+            case 'artists': return new Artist(data, this.client);
+            default: return data;
+        }
+    }
+
+}
\ No newline at end of file
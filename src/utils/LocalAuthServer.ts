@@ -0,0 +1,126 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import Client from '../Client';
+import UserClient from '../UserClient';
+import { UnexpectedError } from '../Errors';
+import { Scope } from '../Types';
+
+/**
+ * Options required for createUserWithLocalServer!
+ */
+export interface LocalServerOptions{
+    clientID: string;
+    clientSecret?: string;
+    scopes?: Scope[];
+    showDialog?: boolean;
+    host?: string;
+    port?: number;
+    path?: string;
+    timeout?: number;
+    client?: Client;
+    open?: (url: string) => void | Promise<void>;
+}
+
+/**
+ * Starts a temporary local server to catch the redirect of the spotify authorization, exchanges the code for a token and returns the user client!
+ * Uses the PKCE flow if the client secret has not been provided. The redirect url `http://host:port/path` must be registered in your spotify app!
+ *
+ * @param options Options required to authorize the user!
+ * @example const user = await Spotify.createUserWithLocalServer({
+ *     clientID: 'id',
+ *     scopes: ['user-read-private'],
+ *     port: 8888, // Redirect url will be http://127.0.0.1:8888/callback
+ *     open: url => console.log(`Authorize the app by visiting ${url}`)
+ * });
+ */
+export async function createUserWithLocalServer(options: LocalServerOptions): Promise<UserClient> {
+
+    const client = options.client || new Client();
+    const host = options.host || '127.0.0.1';
+    const path = options.path || '/callback';
+    const server = createServer();
+
+    await new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(options.port ?? 8888, host, () => {
+            server.removeListener('error', reject);
+            resolve();
+        });
+    });
+
+    try{
+        const redirectURL = `http://${host}:${(server.address() as AddressInfo).port}${path}`;
+        const authorization = options.clientSecret
+            ? { ...client.auth.getAuthorizationURL({ ...options, redirectURL }), codeVerifier: undefined }
+            : client.auth.getPKCEAuthorizationURL({ ...options, redirectURL });
+
+        const open = options.open || (url => console.log(`Authorize the spotify app by visiting ${url}`));
+        const [code] = await Promise.all([
+            waitForCode(server, client, path, options.timeout ?? 300000),
+            open(authorization.url)
+        ]);
+
+        await client.login({
+            clientID: options.clientID,
+            clientSecret: options.clientSecret,
+            redirectURL,
+            code,
+            codeVerifier: authorization.codeVerifier
+        });
+
+        return await client.user.info();
+    }finally{
+        server.close();
+    }
+
+}
+
+/**
+ * Waits for the spotify redirect on the server and resolves the code after validating the state!
+ * Requests with a missing or wrong state are answered with 400 and ignored so that they cannot abort the login.
+ *
+ * @param server The local http server
+ * @param client The client whose auth manager has generated the state
+ * @param path The path of the redirect url
+ * @param timeout Milliseconds to wait for the redirect
+ */
+function waitForCode(server: Server, client: Client, path: string, timeout: number): Promise<string> {
+
+    return new Promise((resolve, reject) => {
+        const timer = setTimeout(() => reject(new UnexpectedError('Timed out waiting for the spotify authorization!')), timeout);
+
+        server.once('close', () => {
+            clearTimeout(timer);
+            reject(new UnexpectedError('The local server closed before the spotify authorization!'));
+        });
+
+        server.on('request', (req, res) => {
+            const url = new URL(req.url || '/', 'http://localhost');
+            res.setHeader('Connection', 'close');
+
+            if(url.pathname != path){
+                res.writeHead(404).end();
+                return;
+            }
+
+            if(!client.auth.verifyState(url.searchParams.get('state'))){
+                res.writeHead(400, { 'Content-Type': 'text/plain' }).end('Invalid state received on the redirect url!');
+                return;
+            }
+
+            const code = url.searchParams.get('code');
+
+            if(!code){
+                res.writeHead(400, { 'Content-Type': 'text/plain' }).end('Authorization failed! You can close this window now.');
+                clearTimeout(timer);
+                reject(new UnexpectedError(`Authorization failed: ${url.searchParams.get('error') || 'no code received'}`));
+                return;
+            }
+
+            res.writeHead(200, { 'Content-Type': 'text/plain' }).end('Authorization successful! You can close this window now.');
+            clearTimeout(timer);
+            resolve(code);
+        });
+    });
+
+}
\ No newline at end of file
@@ -0,0 +1,127 @@
+import { Methods } from '../Types';
+import { Transport, TransportRequest, TransportResponse } from './Transport';
+
+/**
+ * The response of a mock route. The status defaults to 200!
+ */
+export interface MockResponse{
+    status?: number;
+    headers?: Record<string, string>;
+    data?: any;
+}
+
+/**
+ * A function which resolves the response of a mock route. The params are the named parts of the path like `:id`!
+ */
+export type MockHandler = (request: TransportRequest, params: Record<string, string>) => MockResponse | Promise<MockResponse>;
+
+/**
+ * A route registered on the mock transport!
+ */
+export interface MockRoute{
+    method: Methods;
+    path: string;
+    handler: MockHandler;
+}
+
+/**
+ * A transport which never touches the network. Register the route handlers or fixtures and pass it to the client for the tests!
+ * The paths are matched with the pathname of the request url like `/v1/tracks/:id` or `/api/token`.
+ */
+export class MockTransport implements Transport{
+
+    routes: MockRoute[];
+    requests: TransportRequest[];
+
+    /**
+     * A transport which never touches the network!
+     * @example const mock = new MockTransport().on('GET', '/v1/me', { data: { id: 'user' } });
+     */
+    constructor(){
+        this.routes = [];
+        this.requests = [];
+    }
+
+    /**
+     * Registers a route handler or a fixture. The routes registered later take precedence over the earlier ones!
+     * 
+     * @param method The http method of the route
+     * @param path The pathname of the route, the parts starting with `:` match any value
+     * @param response A handler or a fixture response
+     * @example mock.on('GET', '/v1/tracks/:id', (req, params) => ({ data: { id: params.id } }));
+     */
+    on(method: Methods, path: string, response: MockHandler | MockResponse): this {
+        this.routes.unshift({
+            method,
+            path,
+            handler: typeof response == 'function' ? response : () => response
+        });
+
+        return this;
+    }
+
+    /**
+     * Removes all the routes and the recorded requests!
+     * @example mock.reset();
+     */
+    reset(): void {
+        this.routes = [];
+        this.requests = [];
+    }
+
+    /**
+     * Resolves the response of the matching route or a 404 response if there is no such route!
+     * 
+     * @param request The request sent by the client
+     * @example await mock.request({ url: 'https://api.spotify.com/v1/me', method: 'GET' });
+     */
+    async request(request: TransportRequest): Promise<TransportResponse> {
+
+        this.requests.push(request);
+        const pathname = new URL(request.url).pathname;
+
+        for(const route of this.routes){
+            if(route.method.toUpperCase() != request.method.toUpperCase()) continue;
+
+            const params = matchPath(route.path, pathname);
+            if(!params) continue;
+
+            const res = await route.handler(request, params);
+            const headers: Record<string, string> = {};
+            for(const key in res.headers || {}) headers[key.toLowerCase()] = (res.headers as Record<string, string>)[key];
+
+            return { status: res.status || 200, headers, data: res.data ?? '' };
+        }
+
+        return {
+            status: 404,
+            headers: {},
+            data: { error: { status: 404, message: `No mock route for ${request.method.toUpperCase()} ${pathname}` } }
+        };
+
+    }
+
+}
+
+/**
+ * Matches the pathname with the path of a route and returns the params or null if it does not match!
+ * 
+ * @param path The path of the route
+ * @param pathname The pathname of the request
+ */
+function matchPath(path: string, pathname: string): Record<string, string> | null {
+
+    const expected = path.split('/').filter(Boolean);
+    const received = pathname.split('/').filter(Boolean);
+    if(expected.length != received.length) return null;
+
+    const params: Record<string, string> = {};
+
+    for(let i = 0; i < expected.length; i++){
+        if(expected[i].startsWith(':')) params[expected[i].slice(1)] = decodeURIComponent(received[i]);
+        else if(expected[i] != received[i]) return null;
+    }
+
+    return params;
+
+}
\ No newline at end of file
@@ -0,0 +1,199 @@
+import { CursorPaging, Paging } from '../Types';
+
+/**
+ * A function which fetches a page of a paging object by limit and offset!
+ */
+export type PageFetcher<T> = (options: { limit: number; offset: number }) => Promise<Paging<T>>;
+
+/**
+ * A function which fetches a page of a cursor paging object by the cursor. The cursor is null for the first page!
+ */
+export type CursorPageFetcher<T> = (cursor: string | null) => Promise<CursorPaging<T> | null>;
+
+/**
+ * Options for the paginator!
+ */
+export interface PaginatorOptions{
+    limit?: number;
+    offset?: number;
+}
+
+/**
+ * Options for the cursor paginator!
+ */
+export interface CursorPaginatorOptions{
+    direction?: 'after' | 'before';
+    cursor?: string | null;
+}
+
+/**
+ * Options for paginator.collect!
+ */
+export interface CollectOptions{
+    max?: number;
+}
+
+/**
+ * A paginator which walks through every page of a paging object using the offset!
+ */
+export default class Paginator<T> implements AsyncIterable<T>{
+
+    readonly fetcher!: PageFetcher<T>;
+    limit: number;
+    offset: number;
+
+    /**
+     * A paginator which walks through every page of a paging object using the offset!
+     *
+     * @param fetcher A function which fetches a page by limit and offset
+     * @param options Options such as limit and the offset to start from
+     * @example const paginator = new Paginator(page => client.playlists.getTracks('id', page));
+     */
+    constructor(fetcher: PageFetcher<T>, options: PaginatorOptions = {}){
+        Object.defineProperty(this, 'fetcher', { value: fetcher });
+        this.limit = options.limit || 50;
+        this.offset = options.offset || 0;
+    }
+
+    /**
+     * Iterates through every page until the total has been reached!
+     * @example for await (const page of paginator.pages()) console.log(page.items);
+     */
+    async *pages(): AsyncGenerator<Paging<T>> {
+
+        let offset = this.offset;
+
+        while(true){
+            const page = await this.fetcher({ limit: this.limit, offset });
+            yield page;
+
+            offset += page.limit || this.limit;
+            if(!page.items.length || offset >= page.total) break;
+        }
+
+    }
+
+    /**
+     * Iterates through every item of every page!
+     * @example for await (const track of paginator) console.log(track);
+     */
+    async *[Symbol.asyncIterator](): AsyncIterator<T> {
+        for await (const page of this.pages()) yield* page.items;
+    }
+
+    /**
+     * Collects all the items into an array!
+     *
+     * @param options Options such as the maximum number of items to collect
+     * @example const tracks = await paginator.collect({ max: 500 });
+     */
+    async collect(options: CollectOptions = {}): Promise<T[]> {
+        return await collectItems(this, options);
+    }
+
+}
+
+/**
+ * A paginator which walks through every page of a cursor paging object by following the cursors!
+ */
+export class CursorPaginator<T> implements AsyncIterable<T>{
+
+    readonly fetcher!: CursorPageFetcher<T>;
+    direction: 'after' | 'before';
+    cursor: string | null;
+
+    /**
+     * A paginator which walks through every page of a cursor paging object by following the cursors!
+     *
+     * @param fetcher A function which fetches a page by the cursor
+     * @param options Options such as the direction of the cursors and the cursor to start from
+     * @example const paginator = new CursorPaginator(after => client.user.getFollowingArtists({ after, limit: 50 }));
+     */
+    constructor(fetcher: CursorPageFetcher<T>, options: CursorPaginatorOptions = {}){
+        Object.defineProperty(this, 'fetcher', { value: fetcher });
+        this.direction = options.direction || 'after';
+        this.cursor = options.cursor ?? null;
+    }
+
+    /**
+     * Iterates through every page until there are no more cursors!
+     * @example for await (const page of paginator.pages()) console.log(page.items);
+     */
+    async *pages(): AsyncGenerator<CursorPaging<T>> {
+
+        let cursor = this.cursor;
+
+        while(true){
+            const page = await this.fetcher(cursor);
+            if(!page) break;
+            yield page;
+
+            const next = page.cursors[this.direction];
+            if(!page.items.length || !next || next == cursor) break;
+            cursor = next;
+        }
+
+    }
+
+    /**
+     * Iterates through every item of every page!
+     * @example for await (const artist of paginator) console.log(artist);
+     */
+    async *[Symbol.asyncIterator](): AsyncIterator<T> {
+        for await (const page of this.pages()) yield* page.items;
+    }
+
+    /**
+     * Collects all the items into an array!
+     *
+     * @param options Options such as the maximum number of items to collect
+     * @example const artists = await paginator.collect({ max: 500 });
+     */
+    async collect(options: CollectOptions = {}): Promise<T[]> {
+        return await collectItems(this, options);
+    }
+
+}
+
+/**
+ * Returns a paginator for any method which returns a paging object!
+ *
+ * @param fetcher A function which fetches a page by limit and offset
+ * @param options Options such as limit and the offset to start from
+ * @example const tracks = await Spotify.paginate(page => client.playlists.getTracks('id', page)).collect({ max: 500 });
+ */
+export function paginate<T>(fetcher: PageFetcher<T>, options?: PaginatorOptions): Paginator<T> {
+    return new Paginator(fetcher, options);
+}
+
+/**
+ * Returns a cursor paginator for any method which returns a cursor paging object!
+ *
+ * @param fetcher A function which fetches a page by the cursor
+ * @param options Options such as the direction of the cursors and the cursor to start from
+ * @example const artists = await Spotify.paginateCursor(after => client.user.getFollowingArtists({ after, limit: 50 })).collect();
+ */
+export function paginateCursor<T>(fetcher: CursorPageFetcher<T>, options?: CursorPaginatorOptions): CursorPaginator<T> {
+    return new CursorPaginator(fetcher, options);
+}
+
+/**
+ * Collects the items of an async iterable into an array!
+ *
+ * @param iterable The paginator
+ * @param options Options such as the maximum number of items to collect
+ */
+async function collectItems<T>(iterable: AsyncIterable<T>, options: CollectOptions): Promise<T[]> {
+
+    const max = options.max ?? Infinity;
+    const items: T[] = [];
+    if(max <= 0) return items;
+
+    for await (const item of iterable){
+        items.push(item);
+        if(items.length >= max) break;
+    }
+
+    return items;
+
+}
\ No newline at end of file
@@ -0,0 +1,128 @@
+import Client from '../Client';
+import { handleError } from '../Errors';
+import { CursorPaging, Paging, RawObject } from '../Types';
+
+/**
+ * Hooks of a paging object which are used for its items and for the pages fetched from it!
+ */
+export interface PagingHooks<T>{
+    manager?: string;
+    onItems?: (items: T[]) => void;
+}
+
+/**
+ * Creates a paging object which can fetch its previous and next pages!
+ *
+ * @param data The raw paging object returned by the spotify api
+ * @param client Your spotify client
+ * @param map A function which maps the raw items into the structures
+ * @param key The key of the paging object in the responses of the next pages, like `tracks` for search
+ * @param hooks The manager labelling the requests of the next pages and a function called with the items of every page such as to cache them
+ * @example const page = createPaging(data, client, x => new Track(x, client), 'tracks', { manager: 'TrackManager' });
+ */
+export function createPaging<T>(data: RawObject | null | undefined, client: Client, map: (item: RawObject) => T, key?: string, hooks: PagingHooks<T> = {}): Paging<T> {
+
+    if(!data) return emptyPaging();
+
+    const fetchPage = async (url: string | null): Promise<Paging<T> | null> => {
+        if(!url) return null;
+
+        try{
+            const res = await client.util.fetch(url, { manager: hooks.manager });
+            return createPaging(key ? res[key] : res, client, map, key, hooks);
+        }catch(e){
+            return handleError(e, client.requestOptions);
+        }
+    };
+
+    const items = (data.items || []).map(map);
+    hooks.onItems?.(items);
+
+    return {
+        href: data.href ?? null,
+        limit: data.limit,
+        offset: data.offset,
+        total: data.total,
+        items,
+        nextUrl: data.next ?? null,
+        previousUrl: data.previous ?? null,
+        next: () => fetchPage(data.next),
+        previous: () => fetchPage(data.previous)
+    };
+
+}
+
+/**
+ * Returns an empty paging object which has no previous or next page!
+ * @example return handleError(e) || emptyPaging();
+ */
+export function emptyPaging<T>(): Paging<T> {
+    return {
+        href: null,
+        limit: 0,
+        offset: 0,
+        total: 0,
+        items: [],
+        nextUrl: null,
+        previousUrl: null,
+        next: async () => null,
+        previous: async () => null
+    };
+}
+
+/**
+ * Creates a cursor paging object which can fetch its next page!
+ *
+ * @param data The raw cursor paging object returned by the spotify api
+ * @param client Your spotify client
+ * @param map A function which maps the raw items into the structures
+ * @param key The key of the cursor paging object in the responses of the next pages, like `artists` for the following artists
+ * @param hooks The manager labelling the requests of the next pages and a function called with the items of every page such as to cache them
+ * @example const page = createCursorPaging(data, client, x => new Artist(x, client), 'artists', { manager: 'UserClient' });
+ */
+export function createCursorPaging<T>(data: RawObject | null | undefined, client: Client, map: (item: RawObject) => T, key?: string, hooks: PagingHooks<T> = {}): CursorPaging<T> {
+
+    if(!data) return emptyCursorPaging();
+
+    const items = (data.items || []).map(map);
+    hooks.onItems?.(items);
+
+    return {
+        href: data.href ?? null,
+        limit: data.limit,
+        total: data.total,
+        items,
+        cursors: {
+            after: data.cursors?.after ?? null,
+            before: data.cursors?.before ?? null
+        },
+        nextUrl: data.next ?? null,
+        next: async () => {
+            if(!data.next) return null;
+
+            try{
+                const res = await client.util.fetch(data.next, { manager: hooks.manager });
+                return createCursorPaging(key ? res[key] : res, client, map, key, hooks);
+            }catch(e){
+                return handleError(e, client.requestOptions);
+            }
+        }
+    };
+
+}
+
+/**
+ * Returns an empty cursor paging object which has no next page!
+ * @example return handleError(e) || emptyCursorPaging();
+ */
+export function emptyCursorPaging<T>(): CursorPaging<T> {
+    return {
+        href: null,
+        limit: 0,
+        total: 0,
+        items: [],
+        cursors: { after: null, before: null },
+        nextUrl: null,
+        next: async () => null
+    };
+}
\ No newline at end of file
@@ -0,0 +1,107 @@
+/**
+ * Options for the RateLimiter!
+ */
+export interface RateLimiterOptions{
+    retry?: boolean;
+    maxRetries?: number;
+}
+
+/**
+ * A request scheduler which pauses every queued request when spotify rate limits the client!
+ */
+export default class RateLimiter{
+
+    retry: boolean;
+    maxRetries: number;
+    resumesAt: number;
+
+    private queue: (() => void)[];
+    private timer?: ReturnType<typeof setTimeout>;
+
+    /**
+     * A request scheduler which pauses every queued request when spotify rate limits the client!
+     *
+     * @param options Options such as retry and maxRetries
+     * @example const limiter = new RateLimiter({ maxRetries: 5 });
+     */
+    constructor(options: RateLimiterOptions = {}){
+        this.retry = options.retry ?? true;
+        this.maxRetries = options.maxRetries ?? 3;
+        this.resumesAt = 0;
+        this.queue = [];
+    }
+
+    /**
+     * Returns true if the requests are currently paused due to a rate limit!
+     * @readonly
+     */
+    get limited(): boolean {
+        return Date.now() < this.resumesAt;
+    }
+
+    /**
+     * Schedules a request. If spotify responds with 429, the whole scheduler is paused for the `Retry-After` window and the request is replayed!
+     *
+     * @param request A function which performs the request
+     * @example await limiter.schedule(() => send(transport, request));
+     */
+    async schedule<T>(request: () => Promise<T>): Promise<T> {
+
+        for(let attempt = 0; ; attempt++){
+            await this.wait();
+
+            try{
+                return await request();
+            }catch(e){
+                if(!this.retry || e?.response?.status != 429 || attempt >= this.maxRetries) throw e;
+                this.pause(RateLimiter.parseRetryAfter(e.response.headers?.['retry-after']));
+            }
+        }
+
+    }
+
+    /**
+     * Pauses all the requests for a particular duration!
+     *
+     * @param ms Duration in milliseconds
+     * @example limiter.pause(2000);
+     */
+    pause(ms: number): void {
+        const resumesAt = Date.now() + ms;
+        if(resumesAt <= this.resumesAt) return;
+
+        this.resumesAt = resumesAt;
+        if(this.timer) clearTimeout(this.timer);
+        this.timer = setTimeout(() => this.flush(), ms);
+    }
+
+    /**
+     * Resolves when the scheduler is not paused!
+     */
+    private wait(): Promise<void> {
+        if(!this.limited) return Promise.resolve();
+        return new Promise(resolve => this.queue.push(resolve));
+    }
+
+    /**
+     * Releases all the queued requests!
+     */
+    private flush(): void {
+        this.timer = undefined;
+        const queue = this.queue;
+        this.queue = [];
+        for(let i = 0; i < queue.length; i++) queue[i]();
+    }
+
+    /**
+     * Converts the `Retry-After` header value to milliseconds!
+     *
+     * @param value Value of the retry-after header in seconds
+     * @example RateLimiter.parseRetryAfter('2'); // 2000
+     */
+    static parseRetryAfter(value?: string | number): number {
+        const seconds = Number(value);
+        return (isNaN(seconds) || seconds < 0) ? 1000 : seconds * 1000;
+    }
+
+}
\ No newline at end of file
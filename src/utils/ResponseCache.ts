@@ -0,0 +1,215 @@
+import { TransportResponse } from './Transport';
+
+/**
+ * Options for the http response cache!
+ */
+export interface ResponseCacheOptions{
+    max?: number;
+}
+
+/**
+ * A response stored in the http response cache with its validators!
+ */
+export interface CachedResponse{
+    url: string;
+    response: TransportResponse;
+    etag: string | null;
+    lastModified: string | null;
+    expiresAt: number;
+    token: string | null;
+}
+
+/**
+ * A http level cache which stores the response bodies with their `ETag` and `Last-Modified` validators.
+ * Fresh responses are served without a request according to `max-age`, stale ones are revalidated using a conditional request!
+ */
+export default class ResponseCache{
+
+    max: number;
+
+    readonly entries!: Map<string, CachedResponse>;
+
+    /**
+     * A http level cache which stores the response bodies with their validators!
+     *
+     * @param options Options such as the maximum number of responses to keep
+     * @example const cache = new ResponseCache({ max: 1000 });
+     */
+    constructor(options: ResponseCacheOptions = {}){
+        this.max = options.max ?? 500;
+        Object.defineProperty(this, 'entries', { value: new Map() });
+    }
+
+    /**
+     * Returns the number of the stored responses!
+     * @readonly
+     */
+    get size(): number {
+        return this.entries.size;
+    }
+
+    /**
+     * Returns the stored response of a request. Responses which have not been marked public are returned only for the token which received them!
+     *
+     * @param key The key of the request returned by ResponseCache.key
+     * @param token The token sending the request
+     * @example const entry = cache.get(key, token);
+     */
+    get(key: string, token: string): CachedResponse | null {
+        const entry = this.entries.get(key);
+        if(!entry || (entry.token && entry.token != token)) return null;
+
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+        return entry;
+    }
+
+    /**
+     * Returns true if the stored response can be served without revalidating it!
+     *
+     * @param entry The stored response
+     * @example if(cache.isFresh(entry)) return entry.response;
+     */
+    isFresh(entry: CachedResponse): boolean {
+        return Date.now() < entry.expiresAt;
+    }
+
+    /**
+     * Returns the conditional headers to revalidate a stored response!
+     *
+     * @param entry The stored response
+     * @example const headers = cache.conditionalHeaders(entry);
+     */
+    conditionalHeaders(entry: CachedResponse): Record<string, string> {
+        const headers: Record<string, string> = {};
+        if(entry.etag) headers['If-None-Match'] = entry.etag;
+        if(entry.lastModified) headers['If-Modified-Since'] = entry.lastModified;
+        return headers;
+    }
+
+    /**
+     * Stores a successful response if it has a validator or a max-age and has not been marked as no-store!
+     *
+     * @param key The key of the request returned by ResponseCache.key
+     * @param url The absolute url of the request
+     * @param response The response to store
+     * @param token The token which received the response
+     * @example cache.set(key, url, response, token);
+     */
+    set(key: string, url: string, response: TransportResponse, token: string): void {
+        const cacheControl = ResponseCache.parseCacheControl(response.headers['cache-control']);
+        const etag = response.headers['etag'] || null;
+        const lastModified = response.headers['last-modified'] || null;
+        const maxAge = ResponseCache.maxAge(cacheControl);
+
+        if(cacheControl['no-store'] || (!etag && !lastModified && !maxAge)){
+            this.entries.delete(key);
+            return;
+        }
+
+        this.entries.delete(key);
+        this.entries.set(key, {
+            url,
+            response: ResponseCache.copy(response),
+            etag,
+            lastModified,
+            expiresAt: Date.now() + maxAge * 1000,
+            token: cacheControl['public'] ? null : token
+        });
+
+        while(this.entries.size > this.max) this.entries.delete(this.entries.keys().next().value);
+    }
+
+    /**
+     * Updates the freshness of a stored response after a 304 response and returns a copy of the stored response!
+     *
+     * @param entry The stored response
+     * @param response The 304 response
+     * @example return cache.revalidate(entry, response);
+     */
+    revalidate(entry: CachedResponse, response: TransportResponse): TransportResponse {
+        const cacheControl = ResponseCache.parseCacheControl(response.headers['cache-control']);
+        if(response.headers['etag']) entry.etag = response.headers['etag'];
+        entry.expiresAt = Date.now() + ResponseCache.maxAge(cacheControl) * 1000;
+        entry.response = { ...entry.response, headers: { ...entry.response.headers, ...response.headers } };
+        return ResponseCache.copy(entry.response);
+    }
+
+    /**
+     * Deletes the stored responses of an url and of its parent and child paths. Used after a request which modifies the resource!
+     *
+     * @param url The absolute url which has been modified
+     * @example cache.invalidate('https://api.spotify.com/v1/playlists/id/tracks');
+     */
+    invalidate(url: string): void {
+        const path = url.split('?')[0];
+
+        for(const [key, entry] of this.entries){
+            const entryPath = entry.url.split('?')[0];
+            if(entryPath == path || path.startsWith(`${entryPath}/`) || entryPath.startsWith(`${path}/`)) this.entries.delete(key);
+        }
+    }
+
+    /**
+     * Deletes all the stored responses!
+     * @example cache.clear();
+     */
+    clear(): void {
+        this.entries.clear();
+    }
+
+    /**
+     * Returns the key of a request from its absolute url and params!
+     *
+     * @param url The absolute url of the request
+     * @param params The query params of the request
+     * @example const key = ResponseCache.key('https://api.spotify.com/v1/playlists/id', { market: 'US' });
+     */
+    static key(url: string, params: Record<string, any> = {}): string {
+        const query = Object.keys(params).filter(x => params[x] !== undefined && params[x] !== null).sort().map(x => `${x}=${params[x]}`);
+        return query.length ? `${url}${url.includes('?') ? '&' : '?'}${query.join('&')}` : url;
+    }
+
+    /**
+     * Returns a copy of a response so that the stored responses are never modified by the callers!
+     *
+     * @param response The response to copy
+     * @example return ResponseCache.copy(entry.response);
+     */
+    static copy(response: TransportResponse): TransportResponse {
+        return {
+            ...response,
+            headers: { ...response.headers },
+            data: response.data && typeof response.data == 'object' ? JSON.parse(JSON.stringify(response.data)) : response.data
+        };
+    }
+
+    /**
+     * Parses the directives of the `Cache-Control` header!
+     *
+     * @param value Value of the cache-control header
+     * @example ResponseCache.parseCacheControl('public, max-age=60'); // { public: true, 'max-age': '60' }
+     */
+    static parseCacheControl(value?: string): Record<string, string | true> {
+        const directives: Record<string, string | true> = {};
+
+        for(const directive of (value || '').split(',')){
+            const [name, arg] = directive.trim().split('=');
+            if(name) directives[name.toLowerCase()] = arg ? arg.replace(/^"|"$/g, '') : true;
+        }
+
+        return directives;
+    }
+
+    /**
+     * Returns the max-age in seconds from the parsed cache-control directives. Responses marked no-cache always need to be revalidated!
+     *
+     * @param cacheControl The parsed cache-control directives
+     */
+    private static maxAge(cacheControl: Record<string, string | true>): number {
+        if(cacheControl['no-cache']) return 0;
+        const maxAge = Number(cacheControl['max-age']);
+        return isNaN(maxAge) || maxAge < 0 ? 0 : maxAge;
+    }
+
+}
\ No newline at end of file
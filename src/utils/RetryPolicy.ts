@@ -0,0 +1,83 @@
+import { TransportError } from '../Errors';
+import { Methods } from '../Types';
+import RateLimiter from './RateLimiter';
+
+/**
+ * Options for the RetryPolicy!
+ */
+export interface RetryOptions{
+    maxAttempts?: number;
+    baseDelay?: number;
+    maxDelay?: number;
+    jitter?: number;
+    statuses?: number[];
+    codes?: string[];
+    methods?: Methods[];
+}
+
+/**
+ * A policy which decides whether a failed request should be retried and how long to wait before retrying it!
+ */
+export default class RetryPolicy{
+
+    maxAttempts: number;
+    baseDelay: number;
+    maxDelay: number;
+    jitter: number;
+    statuses: number[];
+    codes: string[];
+    methods: Methods[];
+
+    /**
+     * A policy which retries the network failures and the transient server errors with an exponential backoff!
+     * Only the idempotent methods are retried by default.
+     * 
+     * @param options Options such as maxAttempts, baseDelay, jitter, statuses, the network error codes and methods
+     * @example const policy = new RetryPolicy({ maxAttempts: 5, statuses: [502, 503] });
+     */
+    constructor(options: RetryOptions = {}){
+        this.maxAttempts = options.maxAttempts ?? 3;
+        this.baseDelay = options.baseDelay ?? 500;
+        this.maxDelay = options.maxDelay ?? 10000;
+        this.jitter = Math.min(Math.max(options.jitter ?? 0.5, 0), 1);
+        this.statuses = options.statuses || [500, 502, 503, 504];
+        this.codes = options.codes || ['ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN', 'UND_ERR_SOCKET', 'UND_ERR_CONNECT_TIMEOUT'];
+        this.methods = options.methods || ['GET', 'PUT', 'DELETE'];
+    }
+
+    /**
+     * Returns true if the request should be retried after the failure!
+     * 
+     * @param method The method of the request
+     * @param error The error thrown by the transport
+     * @param attempt The number of attempts made so far
+     * @param force Set to true to retry any method or false to never retry
+     * @example if(policy.shouldRetry('GET', e, 1)) await retry();
+     */
+    shouldRetry(method: Methods, error: any, attempt: number, force?: boolean): boolean {
+        if(force === false || attempt >= this.maxAttempts) return false;
+        if(!force && !this.methods.includes(method.toUpperCase() as Methods)) return false;
+
+        if(error instanceof TransportError) return this.statuses.includes(error.response.status);
+
+        // Network failures such as connection resets. The fetch function puts the code of the failure in the cause of its error!
+        const code = error?.code ?? error?.cause?.code;
+        return typeof code == 'string' && this.codes.includes(code);
+    }
+
+    /**
+     * Returns the milliseconds to wait before the next attempt. Uses the `Retry-After` header if spotify has sent it!
+     * 
+     * @param attempt The number of attempts made so far
+     * @param error The error thrown by the transport
+     * @example await sleep(policy.delay(1));
+     */
+    delay(attempt: number, error?: any): number {
+        const retryAfter = error?.response?.headers?.['retry-after'];
+        if(retryAfter !== undefined) return Math.min(RateLimiter.parseRetryAfter(retryAfter), this.maxDelay);
+
+        const delay = Math.min(this.baseDelay * 2 ** (attempt - 1), this.maxDelay);
+        return Math.round(delay - Math.random() * this.jitter * delay);
+    }
+
+}
\ No newline at end of file
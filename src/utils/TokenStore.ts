@@ -0,0 +1,188 @@
+import { promises as fs } from 'fs';
+
+/**
+ * Token object saved in a token store!
+ */
+export interface StoredToken{
+    accessToken: string;
+    refreshToken?: string;
+    expiresAt?: number | null;
+}
+
+/**
+ * The interface to implement a token store. Tokens are keyed by the spotify user id!
+ * Implement the optional lock method so that only one process refreshes the token of a user at a time. It resolves the function which releases the lock!
+ */
+export interface TokenStore{
+    get(id: string): Promise<StoredToken | null>;
+    set(id: string, token: StoredToken): Promise<void>;
+    delete(id: string): Promise<void>;
+    lock?(id: string): Promise<() => Promise<void>>;
+}
+
+/**
+ * A token store which keeps the tokens in the memory!
+ */
+export class MemoryTokenStore implements TokenStore{
+
+    readonly tokens: Map<string, StoredToken>;
+
+    /**
+     * A token store which keeps the tokens in the memory!
+     * @example const store = new MemoryTokenStore();
+     */
+    constructor(){
+        this.tokens = new Map();
+    }
+
+    /**
+     * Returns the stored token of the user!
+     *
+     * @param id The spotify user id
+     * @example await store.get('id');
+     */
+    async get(id: string): Promise<StoredToken | null> {
+        return this.tokens.get(id) || null;
+    }
+
+    /**
+     * Saves the token of the user!
+     *
+     * @param id The spotify user id
+     * @param token The token to save
+     * @example await store.set('id', { accessToken: 'token' });
+     */
+    async set(id: string, token: StoredToken): Promise<void> {
+        this.tokens.set(id, token);
+    }
+
+    /**
+     * Deletes the stored token of the user!
+     *
+     * @param id The spotify user id
+     * @example await store.delete('id');
+     */
+    async delete(id: string): Promise<void> {
+        this.tokens.delete(id);
+    }
+
+}
+
+/**
+ * A token store which keeps the tokens in a json file so that they can be shared by many processes!
+ * The writes of a store are run one at a time and the refreshes of a user are locked with a lock file so that only one process refreshes the token at a time.
+ */
+export class FileTokenStore implements TokenStore{
+
+    path: string;
+    lockTimeout: number;
+
+    private queue!: Promise<void>;
+
+    /**
+     * A token store which keeps the tokens in a json file so that they can be shared by many processes!
+     *
+     * @param path Path of the json file
+     * @example const store = new FileTokenStore('./tokens.json');
+     */
+    constructor(path: string){
+        this.path = path;
+        this.lockTimeout = 30000;
+        Object.defineProperty(this, 'queue', { value: Promise.resolve(), writable: true });
+    }
+
+    /**
+     * Returns the stored token of the user!
+     *
+     * @param id The spotify user id
+     * @example await store.get('id');
+     */
+    async get(id: string): Promise<StoredToken | null> {
+        return (await this.read())[id] || null;
+    }
+
+    /**
+     * Saves the token of the user!
+     *
+     * @param id The spotify user id
+     * @param token The token to save
+     * @example await store.set('id', { accessToken: 'token' });
+     */
+    async set(id: string, token: StoredToken): Promise<void> {
+        await this.update(tokens => tokens[id] = token);
+    }
+
+    /**
+     * Deletes the stored token of the user!
+     *
+     * @param id The spotify user id
+     * @example await store.delete('id');
+     */
+    async delete(id: string): Promise<void> {
+        await this.update(tokens => delete tokens[id]);
+    }
+
+    /**
+     * Waits until the lock file of the user can be created. A lock file older than the lock timeout is left by a crashed process and is removed!
+     * Resolves the function which releases the lock.
+     *
+     * @param id The spotify user id
+     * @example const release = await store.lock('id');
+     */
+    async lock(id: string): Promise<() => Promise<void>> {
+        const file = `${this.path}.${encodeURIComponent(id)}.lock`;
+
+        while(true){
+            try{
+                await (await fs.open(file, 'wx')).close();
+                return () => fs.unlink(file).catch(() => {});
+            }catch(e){
+                if(e.code != 'EEXIST') throw e;
+            }
+
+            const stat = await fs.stat(file).catch(() => null);
+            if(stat && Date.now() - stat.mtimeMs > this.lockTimeout) await fs.unlink(file).catch(() => {});
+            else await new Promise(resolve => setTimeout(resolve, 50));
+        }
+    }
+
+    /**
+     * Reads, modifies and writes the tokens. The updates of this store are run one at a time so that they do not overwrite each other!
+     * 
+     * @param modify A function which modifies the tokens
+     */
+    private update(modify: (tokens: Record<string, StoredToken>) => void): Promise<void> {
+        const update = this.queue.then(async () => {
+            const tokens = await this.read();
+            modify(tokens);
+            await this.write(tokens);
+        });
+
+        this.queue = update.catch(() => {});
+        return update;
+    }
+
+    /**
+     * Reads all the tokens from the file!
+     */
+    private async read(): Promise<Record<string, StoredToken>> {
+        try{
+            return JSON.parse(await fs.readFile(this.path, 'utf-8'));
+        }catch(e){
+            if(e.code == 'ENOENT') return {};
+            throw e;
+        }
+    }
+
+    /**
+     * Writes all the tokens to the file. Writes a temporary file first so that other processes never read a half written file!
+     *
+     * @param tokens All the tokens
+     */
+    private async write(tokens: Record<string, StoredToken>): Promise<void> {
+        const temp = `${this.path}.${process.pid}.${Math.random().toString(36).slice(2)}.tmp`;
+        await fs.writeFile(temp, JSON.stringify(tokens));
+        await fs.rename(temp, this.path);
+    }
+
+}
\ No newline at end of file
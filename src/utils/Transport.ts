@@ -0,0 +1,163 @@
+import axios from 'axios';
+import { Methods } from '../Types';
+import { TransportError, UtilityError } from '../Errors';
+
+/**
+ * A request sent through a transport!
+ */
+export interface TransportRequest{
+    url: string;
+    method: Methods;
+    params?: Record<string, any>;
+    headers?: Record<string, string>;
+    body?: any;
+    signal?: AbortSignal;
+}
+
+/**
+ * A response resolved by a transport. The header names must be in lowercase!
+ */
+export interface TransportResponse<T = any>{
+    status: number;
+    headers: Record<string, string>;
+    data: T;
+}
+
+/**
+ * The interface to implement a transport which sends the http requests of the client.
+ * A transport resolves every response which it receives including the error status codes and rejects only when no response was received!
+ */
+export interface Transport{
+    request(request: TransportRequest): Promise<TransportResponse>;
+}
+
+/**
+ * The default transport which sends the requests using axios!
+ */
+export class AxiosTransport implements Transport{
+
+    /**
+     * Sends the request using axios!
+     * 
+     * @param request The request to send
+     * @example await new AxiosTransport().request({ url: 'https://api.spotify.com/v1/me', method: 'GET' });
+     */
+    async request(request: TransportRequest): Promise<TransportResponse> {
+        const source = axios.CancelToken.source();
+        const cancel = () => source.cancel('The request was aborted!');
+        request.signal?.addEventListener('abort', cancel);
+
+        try{
+            const res = await axios({
+                url: request.url,
+                method: request.method,
+                params: request.params,
+                headers: request.headers,
+                data: request.body,
+                cancelToken: source.token,
+                validateStatus: () => true
+            });
+
+            return { status: res.status, headers: res.headers, data: res.data };
+        }finally{
+            request.signal?.removeEventListener('abort', cancel);
+        }
+    }
+
+}
+
+/**
+ * A transport which sends the requests using the native fetch function available on node 18 and the browsers!
+ */
+export class FetchTransport implements Transport{
+
+    readonly fetch!: FetchFunction;
+
+    /**
+     * A transport which sends the requests using the native fetch function!
+     * 
+     * @param fetch The fetch function to use, defaults to the global fetch
+     * @example const client = new Spotify.Client('token', { transport: new FetchTransport() });
+     */
+    constructor(fetch: FetchFunction | undefined = (globalThis as { fetch?: FetchFunction }).fetch){
+        if(typeof fetch != 'function') throw new UtilityError('The fetch function is not available in this environment!');
+        Object.defineProperty(this, 'fetch', { value: fetch });
+    }
+
+    /**
+     * Sends the request using the fetch function!
+     * 
+     * @param request The request to send
+     * @example await new FetchTransport().request({ url: 'https://api.spotify.com/v1/me', method: 'GET' });
+     */
+    async request(request: TransportRequest): Promise<TransportResponse> {
+
+        const url = new URL(request.url);
+        for(const key in request.params || {}){
+            const value = request.params?.[key];
+            if(value !== undefined && value !== null) url.searchParams.set(key, String(value));
+        }
+
+        const headers = { ...request.headers };
+        let body: string | undefined;
+
+        if(request.body !== undefined){
+            body = typeof request.body == 'string' ? request.body : JSON.stringify(request.body);
+            if(typeof request.body != 'string' && !Object.keys(headers).some(x => x.toLowerCase() == 'content-type')) headers['Content-Type'] = 'application/json';
+        }
+
+        const res = await this.fetch(url.toString(), { method: request.method, headers, body, signal: request.signal });
+        const text = await res.text();
+        const responseHeaders: Record<string, string> = {};
+        res.headers.forEach((value, key) => responseHeaders[key.toLowerCase()] = value);
+
+        let data: any = text;
+
+        try{
+            if(text) data = JSON.parse(text);
+        }catch(e){
+            // Not every response is json such as the html error pages of proxies, so the raw text is kept as the data!
+        }
+
+        return { status: res.status, headers: responseHeaders, data };
+
+    }
+
+}
+
+/**
+ * The fetch function used by the fetch transport!
+ */
+type FetchFunction = (url: string, init: RawFetchInit) => Promise<RawFetchResponse>;
+
+/**
+ * The init object passed to the fetch function!
+ */
+interface RawFetchInit{
+    method: string;
+    headers: Record<string, string>;
+    body?: string;
+    signal?: AbortSignal;
+}
+
+/**
+ * The minimal response object of the fetch function used by the transport!
+ */
+interface RawFetchResponse{
+    status: number;
+    headers: { forEach(callback: (value: string, key: string) => void): void };
+    text(): Promise<string>;
+}
+
+/**
+ * Sends the request through the transport and throws a TransportError when an error status code was resolved!
+ * 
+ * @param transport The transport to use
+ * @param request The request to send
+ * @example const res = await send(transport, { url, method: 'GET' });
+ */
+export async function send(transport: Transport, request: TransportRequest): Promise<TransportResponse> {
+    const response = await transport.request(request);
+    if(response.status >= 400) throw new TransportError(request, response);
+    return response;
+}
\ No newline at end of file